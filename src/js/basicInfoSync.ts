@@ -0,0 +1,163 @@
+import { getBasicInfo, getTableCellRange, parseDate, type BasicInfoDate } from './parser.js';
+import type { ReportDocument } from './reportDocument.js';
+import { detectStage } from './schema.js';
+import { createSourceLines, lineFrom, lineText, lineTo, type SourceLines } from './sourceLines.js';
+
+// 基本信息表格行与阶段元数据字段的对应关系
+export interface BasicInfoSyncMapping {
+  field: 'introduceDate' | 'reportDate' | 'publishDate';
+  stage: string; // schema 中的阶段名称
+  label: string; // 阶段元数据字段名
+}
+
+export const BASIC_INFO_SYNC_MAPPINGS: BasicInfoSyncMapping[] = [
+  { field: 'introduceDate', stage: '漏洞引入', label: '提交时间' },
+  { field: 'reportDate', stage: '漏洞上报', label: '上报时间' },
+  { field: 'publishDate', stage: '漏洞公告', label: '公告时间' },
+];
+
+export type SyncDirection = 'to-stage' | 'to-basic-info';
+
+export type SyncStatus = 'match' | 'mismatch' | 'missing-basic-info' | 'missing-stage';
+
+// 一组对应的值；date 为 null 表示未填写或无法解析
+export interface SyncSide {
+  label: string;
+  line: number;
+  value: string;
+  date: string | null; // YYYY-MM-DD
+}
+
+export interface BasicInfoSyncItem {
+  mapping: BasicInfoSyncMapping;
+  status: SyncStatus;
+  stageIndex: number; // 映射阶段在 report.stages 中的下标
+  basicInfoIndex: number; // 基本信息阶段的下标
+  basicInfo: SyncSide;
+  stage: SyncSide | null; // 阶段中没有该字段时为 null
+}
+
+export interface SyncChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+function toIsoDate(timestamp: number | null): string | null {
+  if (timestamp === null) return null;
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function stripNote(value: string): string {
+  return value.replace(/\s*\([^)]*\)\s*$/, '').trim();
+}
+
+// 对比基本信息与阶段元数据中的对应日期；缺少表格行或阶段时跳过该映射
+export function collectBasicInfoSync(report: ReportDocument): BasicInfoSyncItem[] {
+  const basicInfo = getBasicInfo(report);
+  const basicInfoIndex = report.stages.findIndex(stage => stage.role === 'basic-info');
+  if (!basicInfo || basicInfoIndex === -1) {
+    return [];
+  }
+
+  const items: BasicInfoSyncItem[] = [];
+  BASIC_INFO_SYNC_MAPPINGS.forEach(mapping => {
+    const row = basicInfo.rows.find(item => item.field === mapping.field);
+    const stageIndex = report.stages.findIndex(
+      stage => detectStage(stage.title, report.schema)?.stage.name === mapping.stage
+    );
+    if (!row || stageIndex === -1) return;
+
+    const basicDate: BasicInfoDate | null = basicInfo[mapping.field];
+    const field = report.stages[stageIndex].fields.find(item => item.label.includes(mapping.label));
+    const stageValue = field ? stripNote(field.value) : '';
+    const stageDate = field ? toIsoDate(parseDate(stageValue)) : null;
+
+    const basicSide: SyncSide = {
+      label: row.item,
+      line: row.line,
+      value: row.details.trim(),
+      date: basicDate?.iso ?? null,
+    };
+    const stageSide: SyncSide | null = field
+      ? { label: field.label, line: field.line, value: stageValue, date: stageDate }
+      : null;
+
+    let status: SyncStatus;
+    if (!basicSide.date && !stageDate) {
+      return;
+    } else if (!basicSide.date) {
+      status = 'missing-basic-info';
+    } else if (!stageDate) {
+      status = 'missing-stage';
+    } else {
+      status = basicSide.date === stageDate ? 'match' : 'mismatch';
+    }
+
+    items.push({
+      mapping,
+      status,
+      stageIndex,
+      basicInfoIndex,
+      basicInfo: basicSide,
+      stage: stageSide,
+    });
+  });
+
+  return items;
+}
+
+// 替换表格行第二列（Details）的内容，尽量保持列宽对齐
+function replaceDetailsCell(source: SourceLines, line: number, value: string): SyncChange | null {
+  const start = lineFrom(source, line);
+  const range = getTableCellRange(lineText(source, line), 1);
+  if (!range) return null;
+
+  const width = range.to - range.from;
+  const content = ` ${value}`;
+  const insert = content.length < width ? `${content.padEnd(width - 1)} ` : `${content} `;
+  return { from: start + range.from, to: start + range.to, insert };
+}
+
+// 生成同步所需的编辑：to-stage 以基本信息为准，to-basic-info 以阶段元数据为准
+export function buildSyncChange(
+  report: ReportDocument,
+  item: BasicInfoSyncItem,
+  direction: SyncDirection
+): SyncChange | null {
+  const source = createSourceLines(report.source);
+
+  if (direction === 'to-basic-info') {
+    const date = item.stage?.date;
+    return date ? replaceDetailsCell(source, item.basicInfo.line, date) : null;
+  }
+
+  const date = item.basicInfo.date;
+  if (!date) return null;
+
+  if (item.stage) {
+    const start = lineFrom(source, item.stage.line);
+    const text = lineText(source, item.stage.line);
+    const valueStart = text.indexOf(item.stage.value, text.indexOf('**', text.indexOf('**') + 2));
+    if (valueStart === -1 || !item.stage.value) {
+      // 值为空时追加到行尾
+      return { from: start + text.length, to: start + text.length, insert: ` ${date}` };
+    }
+    return {
+      from: start + valueStart,
+      to: start + valueStart + item.stage.value.length,
+      insert: date,
+    };
+  }
+
+  // 阶段中没有该字段：追加到元数据列表末尾，没有元数据时放在标题下方
+  const stage = report.stages[item.stageIndex];
+  const metadataLines = stage.metadata?.items.map(metadata => metadata.line ?? 0) ?? [];
+  const anchorLine = metadataLines.length > 0 ? Math.max(...metadataLines) : stage.startLine;
+  const anchor = lineTo(source, anchorLine);
+  const prefix = metadataLines.length > 0 ? '\n' : '\n\n';
+  return { from: anchor, to: anchor, insert: `${prefix}- **${item.mapping.label}**: ${date}` };
+}
@@ -0,0 +1,195 @@
+import { getBasicInfo, parseDate, type BasicInfo, type LifecycleStage } from './parser.js';
+import type { ReportDocument } from './reportDocument.js';
+import { detectStage, type LifecycleSchema } from './schema.js';
+
+// 时间信息接口
+export interface TimeInfo {
+  label: string;
+  value: string;
+  timestamp: number | null; // 用于排序的时间戳，null 表示无法解析
+  line: number; // 1-based 行号
+}
+
+// 时间字段：中文 "时间/日期"，英文 "Date/Time"
+const TIME_LABEL_REGEX = /时间|日期|\b(date|time)\b/i;
+
+// 提取时间信息（来自阶段中的 "- **时间类型**：值" 列表项）
+export function extractTimeInfo(stage: LifecycleStage): TimeInfo[] {
+  const timeInfo: TimeInfo[] = [];
+
+  for (const field of stage.fields) {
+    // 只提取时间字段
+    if (!TIME_LABEL_REGEX.test(field.label)) {
+      continue;
+    }
+
+    let fieldValue = field.value;
+    // 如果包含"需要修改"，显示为"待填写"
+    if (fieldValue.includes('需要修改')) {
+      fieldValue = '待填写';
+    } else {
+      // 移除可能的括号内容（如 "(需要修改)"），但保留日期部分
+      fieldValue = fieldValue.replace(/\s*\([^)]*\)\s*$/, '').trim();
+    }
+
+    if (fieldValue.length > 0) {
+      const timestamp = parseDate(fieldValue);
+      timeInfo.push({
+        label: field.label,
+        value: fieldValue,
+        timestamp: timestamp,
+        line: field.line,
+      });
+    }
+  }
+
+  return timeInfo;
+}
+
+// 生命周期中的时间节点
+export type ChronologyMilestone = 'introduce' | 'discover' | 'report' | 'fix' | 'publish';
+
+interface MilestoneDefinition {
+  id: ChronologyMilestone;
+  rank: number; // rank 小的节点应不晚于 rank 大的节点，rank 相同的节点之间不做比较
+  stage: string; // schema 中对应的阶段名称
+  labels: string[]; // 优先使用的时间字段，未找到时使用该阶段最早的时间
+  basicInfo?: 'introduceDate' | 'reportDate' | 'publishDate'; // 基本信息表格中的对应日期
+}
+
+// 引入 → 发现 → 上报 → 修复 / 公告（公告可能早于修复，两者不比较）
+const MILESTONES: MilestoneDefinition[] = [
+  {
+    id: 'introduce',
+    rank: 0,
+    stage: '漏洞引入',
+    labels: ['提交时间', '引入时间'],
+    basicInfo: 'introduceDate',
+  },
+  { id: 'discover', rank: 1, stage: '漏洞发现', labels: ['发现时间'] },
+  { id: 'report', rank: 2, stage: '漏洞上报', labels: ['上报时间'], basicInfo: 'reportDate' },
+  { id: 'fix', rank: 3, stage: '漏洞修复', labels: ['修复时间', '合入时间'] },
+  { id: 'publish', rank: 3, stage: '漏洞公告', labels: ['公告时间'], basicInfo: 'publishDate' },
+];
+
+export interface ChronologyEvent {
+  milestone: ChronologyMilestone;
+  source: 'stage' | 'basic-info';
+  label: string; // 时间字段名，基本信息中的日期带 "基本信息" 前缀
+  value: string;
+  timestamp: number;
+  stageIndex: number; // 所在阶段在 report.stages 中的下标
+  line: number;
+}
+
+export interface ChronologyViolation {
+  earlier: ChronologyEvent; // 应当更早的事件
+  later: ChronologyEvent; // 应当更晚、实际却更早的事件
+  message: string;
+}
+
+// 阶段对应的时间节点；按报告所用的 schema 匹配标题
+function milestoneOf(stage: LifecycleStage, schema: LifecycleSchema): MilestoneDefinition | null {
+  const name = detectStage(stage.title, schema)?.stage.name;
+  return MILESTONES.find(item => item.stage === name) ?? null;
+}
+
+function stageEvent(
+  stage: LifecycleStage,
+  stageIndex: number,
+  milestone: MilestoneDefinition
+): ChronologyEvent | null {
+  const dated = extractTimeInfo(stage).filter(
+    (info): info is TimeInfo & { timestamp: number } => info.timestamp !== null
+  );
+  const preferred = milestone.labels
+    .map(label => dated.find(info => info.label.includes(label)))
+    .find(Boolean);
+  const info = preferred ?? [...dated].sort((a, b) => a.timestamp - b.timestamp)[0];
+  if (!info) return null;
+  return {
+    milestone: milestone.id,
+    source: 'stage',
+    label: info.label,
+    value: info.value,
+    timestamp: info.timestamp,
+    stageIndex,
+    line: info.line,
+  };
+}
+
+function basicInfoEvent(
+  basicInfo: BasicInfo,
+  stageIndex: number,
+  milestone: MilestoneDefinition
+): ChronologyEvent | null {
+  if (!milestone.basicInfo) return null;
+  const date = basicInfo[milestone.basicInfo];
+  const row = basicInfo.rows.find(item => item.field === milestone.basicInfo);
+  if (!date || !row) return null;
+  return {
+    milestone: milestone.id,
+    source: 'basic-info',
+    label: `基本信息 ${row.item}`,
+    value: date.iso,
+    timestamp: date.timestamp,
+    stageIndex,
+    line: row.line,
+  };
+}
+
+// 收集报告中各时间节点的日期（阶段元数据及基本信息表格）
+export function collectChronologyEvents(report: ReportDocument): ChronologyEvent[] {
+  const events: ChronologyEvent[] = [];
+
+  report.stages.forEach((stage, stageIndex) => {
+    const milestone = milestoneOf(stage, report.schema);
+    const event = milestone ? stageEvent(stage, stageIndex, milestone) : null;
+    if (event) events.push(event);
+  });
+
+  const basicInfo = getBasicInfo(report);
+  const basicInfoIndex = report.stages.findIndex(stage => stage.role === 'basic-info');
+  if (basicInfo && basicInfoIndex !== -1) {
+    MILESTONES.forEach(milestone => {
+      const event = basicInfoEvent(basicInfo, basicInfoIndex, milestone);
+      if (event) events.push(event);
+    });
+  }
+
+  return events;
+}
+
+function rankOf(milestone: ChronologyMilestone): number {
+  return MILESTONES.find(item => item.id === milestone)?.rank ?? 0;
+}
+
+// 检查各时间节点的先后顺序（同一天视为一致）
+export function checkChronology(report: ReportDocument): ChronologyViolation[] {
+  const events = collectChronologyEvents(report);
+  const violations: ChronologyViolation[] = [];
+
+  events.forEach(earlier => {
+    events.forEach(later => {
+      if (rankOf(earlier.milestone) >= rankOf(later.milestone)) return;
+      if (later.timestamp >= earlier.timestamp) return;
+      violations.push({
+        earlier,
+        later,
+        message: `${later.label}（${later.value}）早于${earlier.label}（${earlier.value}）`,
+      });
+    });
+  });
+
+  return violations.sort((a, b) => a.later.line - b.later.line);
+}
+
+// 与指定阶段相关的时间冲突
+export function getStageViolations(
+  violations: ChronologyViolation[],
+  stageIndex: number
+): ChronologyViolation[] {
+  return violations.filter(
+    item => item.earlier.stageIndex === stageIndex || item.later.stageIndex === stageIndex
+  );
+}
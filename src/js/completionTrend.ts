@@ -0,0 +1,360 @@
+import { calculateReportCompletion, escapeHtml, type ReportCompletion } from './renderer.js';
+import { getAvailableSchemas, resolveSchema } from './schema.js';
+import { resolveCompletionScoring } from './scoring.js';
+
+// 完成度趋势：对本地历史版本与远程提交逐一计算完成度，按时间绘制总体与各阶段的完成度折线
+
+export type CompletionSnapshotSource = 'history' | 'remote' | 'current';
+
+// 参与趋势计算的一个报告版本
+export interface CompletionSnapshot {
+  id: string;
+  timestamp: number;
+  source: CompletionSnapshotSource;
+  label: string; // 提示中显示的说明（如提交信息）
+  content: string;
+}
+
+// 趋势中的一个点
+export interface CompletionTrendPoint {
+  id: string;
+  timestamp: number;
+  source: CompletionSnapshotSource;
+  label: string;
+  total: number;
+  stages: Record<number, number | null>; // 阶段编号 → 完成度，不适用时为 null
+}
+
+export interface CompletionTrendStage {
+  stageNum: number;
+  title: string;
+  color: string;
+}
+
+export interface CompletionTrend {
+  points: CompletionTrendPoint[]; // 按时间先后排列
+  stages: CompletionTrendStage[]; // 当前报告 schema 中的阶段
+  high: number; // 视为已完成的阈值
+  recentChange: number | null; // 最近 MOMENTUM_DAYS 天内总体完成度的变化
+  stalledDays: number | null; // 总体完成度最后一次变化距今的天数
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MOMENTUM_DAYS = 7;
+const STALL_DAYS = 7; // 超过该天数没有变化且未完成时提示停滞
+const MAX_CACHE_SIZE = 100;
+
+const SOURCE_LABELS: Record<CompletionSnapshotSource, string> = {
+  history: '本地历史',
+  remote: '远程提交',
+  current: '当前内容',
+};
+
+// SVG 坐标系（宽度固定，按容器等比缩放）
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 240;
+const PLOT_LEFT = 48;
+const PLOT_RIGHT = 24;
+const PLOT_TOP = 16;
+const PLOT_BOTTOM = 32;
+const PLOT_WIDTH = VIEW_WIDTH - PLOT_LEFT - PLOT_RIGHT;
+const PLOT_HEIGHT = VIEW_HEIGHT - PLOT_TOP - PLOT_BOTTOM;
+const MAX_TICKS = 5;
+
+type SnapshotCompletion = Pick<CompletionTrendPoint, 'total' | 'stages'>;
+
+// 按内容缓存历史版本的计算结果（LRU），历史版本不会变化，只有评分规则或 schema 变化时才需要重新计算
+// 当前内容每次编辑都会变化，不放入缓存，避免挤掉历史版本
+const completionCache = new Map<string, SnapshotCompletion>();
+let cacheRulesKey = '';
+
+// 用户在图例中隐藏的阶段（重新渲染后保持）
+const hiddenStages = new Set<number>();
+
+function summarizeCompletion({ stages, total }: ReportCompletion): SnapshotCompletion {
+  const summary: SnapshotCompletion = { total, stages: {} };
+  stages.forEach(stage => {
+    summary.stages[stage.stageNum] = stage.notApplicable ? null : stage.completion;
+  });
+  return summary;
+}
+
+function summarizeSnapshot(content: string): SnapshotCompletion {
+  const cached = completionCache.get(content);
+  if (cached) {
+    // 重新插入，移到最近使用的位置
+    completionCache.delete(content);
+    completionCache.set(content, cached);
+    return cached;
+  }
+
+  const summary = summarizeCompletion(calculateReportCompletion(content));
+  if (completionCache.size >= MAX_CACHE_SIZE) {
+    const oldest = completionCache.keys().next().value;
+    if (oldest !== undefined) {
+      completionCache.delete(oldest);
+    }
+  }
+  completionCache.set(content, summary);
+  return summary;
+}
+
+// 计算各版本的完成度；当前内容与最新版本不同时作为最后一个点加入
+// current 为当前内容的完成度（由调用方计算，避免重复解析）
+export function buildCompletionTrend(
+  current: ReportCompletion,
+  snapshots: CompletionSnapshot[]
+): CompletionTrend {
+  const rulesKey = JSON.stringify([
+    resolveCompletionScoring(),
+    resolveSchema().id,
+    getAvailableSchemas(),
+  ]);
+  if (rulesKey !== cacheRulesKey) {
+    completionCache.clear();
+    cacheRulesKey = rulesKey;
+  }
+
+  const markdown = current.report.source;
+  const sorted = snapshots
+    .filter(snapshot => Number.isFinite(snapshot.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0 || sorted[sorted.length - 1].content !== markdown) {
+    sorted.push({
+      id: 'current',
+      timestamp: Date.now(),
+      source: 'current',
+      label: SOURCE_LABELS.current,
+      content: markdown,
+    });
+  }
+
+  const currentSummary = summarizeCompletion(current);
+  const points: CompletionTrendPoint[] = sorted.map(snapshot => ({
+    id: snapshot.id,
+    timestamp: snapshot.timestamp,
+    source: snapshot.source,
+    label: snapshot.label,
+    ...(snapshot.content === markdown ? currentSummary : summarizeSnapshot(snapshot.content)),
+  }));
+
+  const stages = current.stages.map(stage => ({
+    stageNum: stage.stageNum,
+    title: stage.title,
+    color: current.report.schema.stages.find(item => item.number === stage.stageNum)?.color ?? '',
+  }));
+
+  return {
+    points,
+    stages,
+    high: current.thresholds.high,
+    recentChange: calculateRecentChange(points),
+    stalledDays: calculateStalledDays(points),
+  };
+}
+
+// 最近一段时间内总体完成度的变化，以该时间段开始前的最后一个点为基准
+function calculateRecentChange(points: CompletionTrendPoint[]): number | null {
+  if (points.length < 2) {
+    return null;
+  }
+  const latest = points[points.length - 1];
+  const since = Date.now() - MOMENTUM_DAYS * DAY_MS;
+  const baseline = [...points].reverse().find(point => point.timestamp <= since) ?? points[0];
+  return latest.total - baseline.total;
+}
+
+// 总体完成度最后一次变化距今的天数
+function calculateStalledDays(points: CompletionTrendPoint[]): number | null {
+  if (points.length < 2) {
+    return null;
+  }
+  let changedAt = points[0].timestamp;
+  for (let index = 1; index < points.length; index++) {
+    if (points[index].total !== points[index - 1].total) {
+      changedAt = points[index].timestamp;
+    }
+  }
+  return Math.max(0, Math.floor((Date.now() - changedAt) / DAY_MS));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatTimestamp(timestamp: number, withTime: boolean): string {
+  const date = new Date(timestamp);
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return withTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+}
+
+function formatChange(change: number): string {
+  return change > 0 ? `+${change}%` : `${change}%`;
+}
+
+// 折线路径：值为 null 的点断开折线
+function buildLinePath(
+  points: CompletionTrendPoint[],
+  xOf: (timestamp: number) => number,
+  valueOf: (point: CompletionTrendPoint) => number | null | undefined
+): string {
+  let path = '';
+  let drawing = false;
+  points.forEach(point => {
+    const value = valueOf(point);
+    if (value === null || value === undefined) {
+      drawing = false;
+      return;
+    }
+    const y = PLOT_TOP + PLOT_HEIGHT * (1 - value / 100);
+    path += `${drawing ? 'L' : 'M'}${xOf(point.timestamp).toFixed(1)} ${y.toFixed(1)} `;
+    drawing = true;
+  });
+  return path.trim();
+}
+
+export function renderCompletionTrendSvg(trend: CompletionTrend): string {
+  const { points } = trend;
+  const start = points[0].timestamp;
+  const end = points[points.length - 1].timestamp;
+  const span = end - start;
+  const xOf = (timestamp: number) =>
+    span > 0 ? PLOT_LEFT + ((timestamp - start) / span) * PLOT_WIDTH : PLOT_LEFT + PLOT_WIDTH / 2;
+  const yOf = (value: number) => PLOT_TOP + PLOT_HEIGHT * (1 - value / 100);
+
+  let svg = `<svg class="completion-trend-svg" viewBox="0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}" preserveAspectRatio="xMidYMid meet" role="img" aria-label="完成度趋势">`;
+
+  // 纵轴：0-100%
+  [0, 25, 50, 75, 100].forEach(value => {
+    const y = yOf(value);
+    svg += `<line class="chart-grid" x1="${PLOT_LEFT}" y1="${y}" x2="${PLOT_LEFT + PLOT_WIDTH}" y2="${y}"/>`;
+    svg += `<text class="chart-tick-label" x="${PLOT_LEFT - 8}" y="${y + 4}" text-anchor="end">${value}%</text>`;
+  });
+
+  // 已完成阈值
+  const highY = yOf(trend.high);
+  svg += `<line class="completion-trend-threshold" x1="${PLOT_LEFT}" y1="${highY}" x2="${PLOT_LEFT + PLOT_WIDTH}" y2="${highY}"><title>已完成阈值 ${trend.high}%</title></line>`;
+
+  // 横轴：按时间比例排列，跨度不足两天时显示到分钟
+  const withTime = span < 2 * DAY_MS;
+  const tickCount = span > 0 ? Math.min(MAX_TICKS, points.length) : 1;
+  for (let index = 0; index < tickCount; index++) {
+    const timestamp = tickCount > 1 ? start + (span * index) / (tickCount - 1) : start;
+    const anchor =
+      tickCount > 1 && index === 0
+        ? 'start'
+        : index === tickCount - 1 && tickCount > 1
+          ? 'end'
+          : 'middle';
+    svg += `<text class="chart-tick-label" x="${xOf(timestamp)}" y="${VIEW_HEIGHT - 10}" text-anchor="${anchor}">${escapeHtml(formatTimestamp(timestamp, withTime))}</text>`;
+  }
+
+  // 各阶段折线
+  trend.stages.forEach(stage => {
+    const path = buildLinePath(points, xOf, point => point.stages[stage.stageNum]);
+    if (!path) return;
+    const hidden = hiddenStages.has(stage.stageNum) ? ' hidden' : '';
+    svg += `<path class="completion-trend-stage-line${hidden}" data-stage="${stage.stageNum}" d="${path}" stroke="${escapeHtml(stage.color)}"><title>${escapeHtml(stage.title)}</title></path>`;
+  });
+
+  // 总体完成度折线与各版本的点
+  svg += `<path class="completion-trend-total-line" d="${buildLinePath(points, xOf, point => point.total)}"/>`;
+  points.forEach(point => {
+    const tooltip = `${formatTimestamp(point.timestamp, true)} · ${SOURCE_LABELS[point.source]}${point.label && point.label !== SOURCE_LABELS[point.source] ? `：${point.label}` : ''}\n总体完成度 ${point.total}%`;
+    svg += `<circle class="completion-trend-point" data-source="${point.source}" cx="${xOf(point.timestamp).toFixed(1)}" cy="${yOf(point.total).toFixed(1)}" r="5"><title>${escapeHtml(tooltip)}</title></circle>`;
+  });
+
+  svg += '</svg>';
+  return svg;
+}
+
+function renderLegendHtml(trend: CompletionTrend): string {
+  let html = '<div class="completion-trend-legend">';
+  html += '<span class="completion-trend-legend-total">总体</span>';
+  trend.stages.forEach(stage => {
+    const values = trend.points
+      .map(point => point.stages[stage.stageNum])
+      .filter((value): value is number => value !== null && value !== undefined);
+    const latest = trend.points[trend.points.length - 1].stages[stage.stageNum];
+    const range =
+      latest === null
+        ? 'N/A'
+        : values.length > 0
+          ? `${values[0]}% → ${values[values.length - 1]}%`
+          : '—';
+    const visible = !hiddenStages.has(stage.stageNum);
+    html += `<button type="button" class="completion-trend-legend-item${visible ? '' : ' off'}" data-stage="${stage.stageNum}" aria-pressed="${visible}" title="显示 / 隐藏该阶段">`;
+    html += `<span class="completion-trend-swatch" style="background: ${escapeHtml(stage.color)}"></span>`;
+    html += `<span class="completion-trend-legend-title">${escapeHtml(stage.title)}</span>`;
+    html += `<span class="completion-trend-legend-range">${range}</span>`;
+    html += '</button>';
+  });
+  html += '</div>';
+  return html;
+}
+
+// 渲染完成度视图中的趋势区域
+export function renderCompletionTrendHtml(
+  trend: CompletionTrend,
+  remoteStatus: string | null
+): string {
+  const { points } = trend;
+  const latest = points[points.length - 1];
+
+  let html = '<div class="completion-trend">';
+  html += '<div class="completion-trend-header">';
+  html += '<h3 class="completion-trend-title">📈 完成度趋势</h3>';
+  html += '<div class="completion-trend-summary">';
+  html += `<span class="completion-trend-chip">${points.length} 个版本</span>`;
+  if (trend.recentChange !== null) {
+    const direction = trend.recentChange > 0 ? 'up' : trend.recentChange < 0 ? 'down' : 'flat';
+    html += `<span class="completion-trend-chip ${direction}">近 ${MOMENTUM_DAYS} 天 ${formatChange(trend.recentChange)}</span>`;
+  }
+  if (trend.stalledDays !== null) {
+    if (trend.stalledDays >= STALL_DAYS && latest.total < trend.high) {
+      html += `<span class="completion-trend-chip stalled">⚠ 已 ${trend.stalledDays} 天没有进展</span>`;
+    } else {
+      const changedText = trend.stalledDays === 0 ? '今天' : `${trend.stalledDays} 天前`;
+      html += `<span class="completion-trend-chip">最近变化：${changedText}</span>`;
+    }
+  }
+  html += '</div>';
+  html += '<div class="completion-trend-actions">';
+  if (remoteStatus) {
+    html += `<span class="completion-trend-remote-status">${escapeHtml(remoteStatus)}</span>`;
+  }
+  html +=
+    '<button type="button" class="completion-trend-remote-btn" title="从 GitHub 加载报告文件的历史提交">加载远程提交</button>';
+  html += '</div>';
+  html += '</div>';
+
+  if (points.length < 2) {
+    html +=
+      '<p class="completion-trend-empty">历史版本不足，编辑并自动保存后或加载远程提交后可查看完成度趋势。</p>';
+  } else {
+    html += `<div class="completion-trend-chart">${renderCompletionTrendSvg(trend)}</div>`;
+    html += renderLegendHtml(trend);
+  }
+
+  html += '</div>';
+  return html;
+}
+
+// 在图例中显示或隐藏阶段折线
+export function toggleTrendStage(button: HTMLElement): void {
+  const stageNum = Number(button.dataset.stage);
+  if (!Number.isFinite(stageNum)) return;
+
+  const visible = hiddenStages.has(stageNum);
+  if (visible) {
+    hiddenStages.delete(stageNum);
+  } else {
+    hiddenStages.add(stageNum);
+  }
+  button.classList.toggle('off', !visible);
+  button.setAttribute('aria-pressed', String(visible));
+  button
+    .closest('.completion-trend')
+    ?.querySelectorAll(`.completion-trend-stage-line[data-stage="${stageNum}"]`)
+    .forEach(line => line.classList.toggle('hidden', !visible));
+}
@@ -0,0 +1,456 @@
+import { CVSS31, CVSS40 } from '@pandatix/js-cvss';
+
+export type CvssVersion = '3.1' | '4.0';
+
+export type CvssSeverity = 'NONE' | 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// 指标分组：v3.1 为 base/temporal/environmental，v4.0 为 base/threat/environmental/supplemental
+export type CvssMetricGroup = 'base' | 'temporal' | 'threat' | 'environmental' | 'supplemental';
+
+export interface CvssMetricOption {
+  value: string;
+  label: string;
+}
+
+// 指标定义
+export interface CvssMetricDefinition {
+  key: string;
+  name: string;
+  group: CvssMetricGroup;
+  options: CvssMetricOption[];
+  defaultValue: string; // 基础指标为必填默认值，其余为 X（未定义）
+}
+
+// 解析后的单个指标
+export interface CvssMetricValue {
+  key: string;
+  name: string;
+  group: CvssMetricGroup;
+  value: string;
+  valueLabel: string;
+}
+
+export interface CvssScore {
+  version: CvssVersion;
+  vector: string; // 规范化后的向量
+  metrics: CvssMetricValue[];
+  baseScore: number;
+  temporalScore: number | null; // v4.0 中为 Threat 分数（CVSS-BT）
+  environmentalScore: number | null; // v4.0 中为 CVSS-BE / CVSS-BTE 分数
+  score: number; // 向量整体对应的分数
+  severity: CvssSeverity;
+  nomenclature: string; // 如 CVSS-B、CVSS-BTE；v3.1 为 Base/Temporal/Environmental
+}
+
+export type CvssResult = {
+  ok: boolean;
+  data?: CvssScore;
+  error?: string;
+};
+
+// 手工填写的分数与向量计算结果的比对
+export interface CvssCheck {
+  declaredScore: number | null;
+  result: CvssResult | null; // 未填写向量时为 null
+  mismatch: boolean;
+}
+
+const SCORE_TOLERANCE = 0.05;
+
+const IMPACT_OPTIONS: CvssMetricOption[] = [
+  { value: 'H', label: '高' },
+  { value: 'L', label: '低' },
+  { value: 'N', label: '无' },
+];
+
+const NOT_DEFINED: CvssMetricOption = { value: 'X', label: '未定义' };
+
+const REQUIREMENT_OPTIONS: CvssMetricOption[] = [
+  NOT_DEFINED,
+  { value: 'H', label: '高' },
+  { value: 'M', label: '中' },
+  { value: 'L', label: '低' },
+];
+
+const ATTACK_VECTOR_OPTIONS: CvssMetricOption[] = [
+  { value: 'N', label: '网络' },
+  { value: 'A', label: '相邻网络' },
+  { value: 'L', label: '本地' },
+  { value: 'P', label: '物理' },
+];
+
+const ATTACK_COMPLEXITY_OPTIONS: CvssMetricOption[] = [
+  { value: 'L', label: '低' },
+  { value: 'H', label: '高' },
+];
+
+const PRIVILEGES_OPTIONS: CvssMetricOption[] = [
+  { value: 'N', label: '无' },
+  { value: 'L', label: '低' },
+  { value: 'H', label: '高' },
+];
+
+function withNotDefined(options: CvssMetricOption[]): CvssMetricOption[] {
+  return [NOT_DEFINED, ...options];
+}
+
+function metric(
+  key: string,
+  name: string,
+  group: CvssMetricGroup,
+  options: CvssMetricOption[]
+): CvssMetricDefinition {
+  return { key, name, group, options, defaultValue: options[0].value };
+}
+
+export const CVSS31_METRICS: CvssMetricDefinition[] = [
+  metric('AV', '攻击向量', 'base', ATTACK_VECTOR_OPTIONS),
+  metric('AC', '攻击复杂度', 'base', ATTACK_COMPLEXITY_OPTIONS),
+  metric('PR', '所需权限', 'base', PRIVILEGES_OPTIONS),
+  metric('UI', '用户交互', 'base', [
+    { value: 'N', label: '不需要' },
+    { value: 'R', label: '需要' },
+  ]),
+  metric('S', '影响范围', 'base', [
+    { value: 'U', label: '不变' },
+    { value: 'C', label: '改变' },
+  ]),
+  metric('C', '机密性', 'base', IMPACT_OPTIONS),
+  metric('I', '完整性', 'base', IMPACT_OPTIONS),
+  metric('A', '可用性', 'base', IMPACT_OPTIONS),
+  metric('E', '利用代码成熟度', 'temporal', [
+    NOT_DEFINED,
+    { value: 'H', label: '高' },
+    { value: 'F', label: '可用' },
+    { value: 'P', label: '概念验证' },
+    { value: 'U', label: '未证实' },
+  ]),
+  metric('RL', '修复级别', 'temporal', [
+    NOT_DEFINED,
+    { value: 'U', label: '不可用' },
+    { value: 'W', label: '变通方案' },
+    { value: 'T', label: '临时修复' },
+    { value: 'O', label: '官方修复' },
+  ]),
+  metric('RC', '报告可信度', 'temporal', [
+    NOT_DEFINED,
+    { value: 'C', label: '已确认' },
+    { value: 'R', label: '合理' },
+    { value: 'U', label: '未知' },
+  ]),
+  metric('CR', '机密性要求', 'environmental', REQUIREMENT_OPTIONS),
+  metric('IR', '完整性要求', 'environmental', REQUIREMENT_OPTIONS),
+  metric('AR', '可用性要求', 'environmental', REQUIREMENT_OPTIONS),
+  metric('MAV', '修正攻击向量', 'environmental', withNotDefined(ATTACK_VECTOR_OPTIONS)),
+  metric('MAC', '修正攻击复杂度', 'environmental', withNotDefined(ATTACK_COMPLEXITY_OPTIONS)),
+  metric('MPR', '修正所需权限', 'environmental', withNotDefined(PRIVILEGES_OPTIONS)),
+  metric('MUI', '修正用户交互', 'environmental', [
+    NOT_DEFINED,
+    { value: 'N', label: '不需要' },
+    { value: 'R', label: '需要' },
+  ]),
+  metric('MS', '修正影响范围', 'environmental', [
+    NOT_DEFINED,
+    { value: 'U', label: '不变' },
+    { value: 'C', label: '改变' },
+  ]),
+  metric('MC', '修正机密性', 'environmental', withNotDefined(IMPACT_OPTIONS)),
+  metric('MI', '修正完整性', 'environmental', withNotDefined(IMPACT_OPTIONS)),
+  metric('MA', '修正可用性', 'environmental', withNotDefined(IMPACT_OPTIONS)),
+];
+
+const V4_USER_INTERACTION_OPTIONS: CvssMetricOption[] = [
+  { value: 'N', label: '不需要' },
+  { value: 'P', label: '被动' },
+  { value: 'A', label: '主动' },
+];
+
+const V4_ATTACK_REQUIREMENTS_OPTIONS: CvssMetricOption[] = [
+  { value: 'N', label: '无' },
+  { value: 'P', label: '存在' },
+];
+
+export const CVSS40_METRICS: CvssMetricDefinition[] = [
+  metric('AV', '攻击向量', 'base', ATTACK_VECTOR_OPTIONS),
+  metric('AC', '攻击复杂度', 'base', ATTACK_COMPLEXITY_OPTIONS),
+  metric('AT', '攻击条件', 'base', V4_ATTACK_REQUIREMENTS_OPTIONS),
+  metric('PR', '所需权限', 'base', PRIVILEGES_OPTIONS),
+  metric('UI', '用户交互', 'base', V4_USER_INTERACTION_OPTIONS),
+  metric('VC', '脆弱系统机密性', 'base', IMPACT_OPTIONS),
+  metric('VI', '脆弱系统完整性', 'base', IMPACT_OPTIONS),
+  metric('VA', '脆弱系统可用性', 'base', IMPACT_OPTIONS),
+  metric('SC', '后续系统机密性', 'base', IMPACT_OPTIONS),
+  metric('SI', '后续系统完整性', 'base', IMPACT_OPTIONS),
+  metric('SA', '后续系统可用性', 'base', IMPACT_OPTIONS),
+  metric('E', '利用成熟度', 'threat', [
+    NOT_DEFINED,
+    { value: 'A', label: '已被利用' },
+    { value: 'P', label: '概念验证' },
+    { value: 'U', label: '未报告' },
+  ]),
+  metric('CR', '机密性要求', 'environmental', REQUIREMENT_OPTIONS),
+  metric('IR', '完整性要求', 'environmental', REQUIREMENT_OPTIONS),
+  metric('AR', '可用性要求', 'environmental', REQUIREMENT_OPTIONS),
+  metric('MAV', '修正攻击向量', 'environmental', withNotDefined(ATTACK_VECTOR_OPTIONS)),
+  metric('MAC', '修正攻击复杂度', 'environmental', withNotDefined(ATTACK_COMPLEXITY_OPTIONS)),
+  metric('MAT', '修正攻击条件', 'environmental', withNotDefined(V4_ATTACK_REQUIREMENTS_OPTIONS)),
+  metric('MPR', '修正所需权限', 'environmental', withNotDefined(PRIVILEGES_OPTIONS)),
+  metric('MUI', '修正用户交互', 'environmental', withNotDefined(V4_USER_INTERACTION_OPTIONS)),
+  metric('MVC', '修正脆弱系统机密性', 'environmental', withNotDefined(IMPACT_OPTIONS)),
+  metric('MVI', '修正脆弱系统完整性', 'environmental', withNotDefined(IMPACT_OPTIONS)),
+  metric('MVA', '修正脆弱系统可用性', 'environmental', withNotDefined(IMPACT_OPTIONS)),
+  metric('MSC', '修正后续系统机密性', 'environmental', withNotDefined(IMPACT_OPTIONS)),
+  metric('MSI', '修正后续系统完整性', 'environmental', [
+    NOT_DEFINED,
+    { value: 'S', label: '安全' },
+    ...IMPACT_OPTIONS,
+  ]),
+  metric('MSA', '修正后续系统可用性', 'environmental', [
+    NOT_DEFINED,
+    { value: 'S', label: '安全' },
+    ...IMPACT_OPTIONS,
+  ]),
+  metric('S', '安全影响', 'supplemental', [
+    NOT_DEFINED,
+    { value: 'N', label: '可忽略' },
+    { value: 'P', label: '存在' },
+  ]),
+  metric('AU', '可自动化', 'supplemental', [
+    NOT_DEFINED,
+    { value: 'N', label: '否' },
+    { value: 'Y', label: '是' },
+  ]),
+  metric('R', '恢复能力', 'supplemental', [
+    NOT_DEFINED,
+    { value: 'A', label: '自动' },
+    { value: 'U', label: '用户' },
+    { value: 'I', label: '不可恢复' },
+  ]),
+  metric('V', '价值密度', 'supplemental', [
+    NOT_DEFINED,
+    { value: 'D', label: '分散' },
+    { value: 'C', label: '集中' },
+  ]),
+  metric('RE', '响应投入', 'supplemental', [
+    NOT_DEFINED,
+    { value: 'L', label: '低' },
+    { value: 'M', label: '中' },
+    { value: 'H', label: '高' },
+  ]),
+  metric('U', '紧急程度', 'supplemental', [
+    NOT_DEFINED,
+    { value: 'Clear', label: 'Clear' },
+    { value: 'Green', label: 'Green' },
+    { value: 'Amber', label: 'Amber' },
+    { value: 'Red', label: 'Red' },
+  ]),
+];
+
+export const CVSS_METRIC_GROUP_LABELS: Record<CvssMetricGroup, string> = {
+  base: '基础指标',
+  temporal: '时间指标',
+  threat: '威胁指标',
+  environmental: '环境指标',
+  supplemental: '补充指标',
+};
+
+export const CVSS_SEVERITY_LABELS: Record<CvssSeverity, string> = {
+  NONE: '无',
+  LOW: '低危',
+  MEDIUM: '中危',
+  HIGH: '高危',
+  CRITICAL: '严重',
+};
+
+export function getCvssMetricDefinitions(version: CvssVersion): CvssMetricDefinition[] {
+  return version === '3.1' ? CVSS31_METRICS : CVSS40_METRICS;
+}
+
+// 根据分数给出严重等级（v3.1 与 v4.0 规则一致）
+export function getCvssSeverity(score: number): CvssSeverity {
+  if (score === 0) return 'NONE';
+  if (score < 4) return 'LOW';
+  if (score < 7) return 'MEDIUM';
+  if (score < 9) return 'HIGH';
+  return 'CRITICAL';
+}
+
+// 从 "CVSS:3.1/AV:N/..." 中识别版本，不支持的版本返回 null
+export function detectCvssVersion(vector: string): CvssVersion | null {
+  const match = vector.trim().match(/^CVSS:(\d\.\d)\//);
+  if (!match) return null;
+  if (match[1] === '3.1' || match[1] === '4.0') {
+    return match[1];
+  }
+  return null;
+}
+
+// 将指标值按定义顺序拼接为向量，未定义（X）的可选指标不输出
+export function buildCvssVector(version: CvssVersion, values: Record<string, string>): string {
+  const parts = getCvssMetricDefinitions(version)
+    .filter(def => {
+      const value = values[def.key] ?? def.defaultValue;
+      return def.group === 'base' || value !== 'X';
+    })
+    .map(def => `${def.key}:${values[def.key] ?? def.defaultValue}`);
+  return `CVSS:${version}/${parts.join('/')}`;
+}
+
+// 解析向量为指标值映射（仅做结构校验，不计算分数）
+export function parseCvssMetrics(vector: string): {
+  ok: boolean;
+  version?: CvssVersion;
+  values?: Record<string, string>;
+  error?: string;
+} {
+  const trimmed = vector.trim().replace(/\/$/, '');
+  const version = detectCvssVersion(trimmed);
+  if (!version) {
+    return { ok: false, error: '仅支持 CVSS:3.1 与 CVSS:4.0 向量' };
+  }
+
+  const definitions = getCvssMetricDefinitions(version);
+  const values: Record<string, string> = {};
+  const parts = trimmed.split('/').slice(1);
+
+  for (const part of parts) {
+    const [key, value, ...rest] = part.split(':');
+    const def = definitions.find(d => d.key === key);
+    if (!def || value === undefined || rest.length > 0) {
+      return { ok: false, version, error: `无法识别的指标：${part}` };
+    }
+    if (key in values) {
+      return { ok: false, version, error: `指标 ${key} 重复出现` };
+    }
+    if (!def.options.some(option => option.value === value)) {
+      return { ok: false, version, error: `指标 ${key} 的取值 ${value} 无效` };
+    }
+    values[key] = value;
+  }
+
+  const missing = definitions
+    .filter(def => def.group === 'base' && !(def.key in values))
+    .map(def => def.key);
+  if (missing.length > 0) {
+    return { ok: false, version, error: `缺少基础指标：${missing.join('、')}` };
+  }
+
+  return { ok: true, version, values };
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 10) / 10;
+}
+
+function hasGroupValues(
+  definitions: CvssMetricDefinition[],
+  values: Record<string, string>,
+  group: CvssMetricGroup
+): boolean {
+  return definitions.some(def => def.group === group && (values[def.key] ?? 'X') !== 'X');
+}
+
+function pickGroups(
+  version: CvssVersion,
+  values: Record<string, string>,
+  groups: CvssMetricGroup[]
+): string {
+  const picked: Record<string, string> = {};
+  getCvssMetricDefinitions(version).forEach(def => {
+    if (groups.includes(def.group) && def.key in values) {
+      picked[def.key] = values[def.key];
+    }
+  });
+  return buildCvssVector(version, picked);
+}
+
+// 解析 CVSS 向量并计算基础/时间（威胁）/环境分数
+export function calculateCvss(vector: string): CvssResult {
+  const parsed = parseCvssMetrics(vector);
+  if (!parsed.ok || !parsed.version || !parsed.values) {
+    return { ok: false, error: parsed.error };
+  }
+
+  const { version, values } = parsed;
+  const definitions = getCvssMetricDefinitions(version);
+  const normalizedVector = buildCvssVector(version, values);
+  const metrics: CvssMetricValue[] = definitions
+    .filter(def => def.key in values)
+    .map(def => ({
+      key: def.key,
+      name: def.name,
+      group: def.group,
+      value: values[def.key],
+      valueLabel: def.options.find(option => option.value === values[def.key])?.label ?? '',
+    }));
+
+  const hasTemporal = hasGroupValues(
+    definitions,
+    values,
+    version === '3.1' ? 'temporal' : 'threat'
+  );
+  const hasEnvironmental = hasGroupValues(definitions, values, 'environmental');
+
+  try {
+    let baseScore: number;
+    let temporalScore: number | null = null;
+    let environmentalScore: number | null = null;
+    let nomenclature: string;
+
+    if (version === '3.1') {
+      const cvss = new CVSS31(normalizedVector);
+      baseScore = cvss.BaseScore();
+      temporalScore = hasTemporal ? cvss.TemporalScore() : null;
+      environmentalScore = hasEnvironmental ? cvss.EnvironmentalScore() : null;
+      nomenclature = hasEnvironmental ? 'Environmental' : hasTemporal ? 'Temporal' : 'Base';
+    } else {
+      // v4.0 没有独立的时间/环境公式，按指标分组分别计算 CVSS-B / CVSS-BT / CVSS-BE(BTE)
+      const full = new CVSS40(normalizedVector);
+      baseScore = new CVSS40(pickGroups(version, values, ['base', 'supplemental'])).Score();
+      temporalScore = hasTemporal
+        ? new CVSS40(pickGroups(version, values, ['base', 'threat', 'supplemental'])).Score()
+        : null;
+      environmentalScore = hasEnvironmental ? full.Score() : null;
+      nomenclature = full.Nomenclature();
+    }
+
+    baseScore = roundScore(baseScore);
+    temporalScore = temporalScore === null ? null : roundScore(temporalScore);
+    environmentalScore = environmentalScore === null ? null : roundScore(environmentalScore);
+    const score = environmentalScore ?? temporalScore ?? baseScore;
+
+    return {
+      ok: true,
+      data: {
+        version,
+        vector: normalizedVector,
+        metrics,
+        baseScore,
+        temporalScore,
+        environmentalScore,
+        score,
+        severity: getCvssSeverity(score),
+        nomenclature,
+      },
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'CVSS 计算失败',
+    };
+  }
+}
+
+// 比对手工填写的分数与向量计算出的分数
+export function checkCvss(declaredScore: number | null, vector: string | null): CvssCheck {
+  if (!vector) {
+    return { declaredScore, result: null, mismatch: false };
+  }
+  const result = calculateCvss(vector);
+  const mismatch =
+    result.ok &&
+    result.data !== undefined &&
+    declaredScore !== null &&
+    Math.abs(result.data.score - declaredScore) > SCORE_TOLERANCE;
+  return { declaredScore, result, mismatch };
+}
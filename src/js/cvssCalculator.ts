@@ -0,0 +1,230 @@
+import { EditorView } from '@codemirror/view';
+import {
+  buildCvssVector,
+  calculateCvss,
+  getCvssMetricDefinitions,
+  parseCvssMetrics,
+  CVSS_METRIC_GROUP_LABELS,
+  CVSS_SEVERITY_LABELS,
+  type CvssMetricGroup,
+  type CvssVersion,
+} from './cvss.js';
+import { getTableCellRange, parseBasicInfo, type BasicInfoRow } from './parser.js';
+import { escapeHtml } from './renderer.js';
+import { logger } from './logger.js';
+
+const METRIC_GROUP_ORDER: CvssMetricGroup[] = [
+  'base',
+  'temporal',
+  'threat',
+  'environmental',
+  'supplemental',
+];
+
+const CVSS_VECTOR_IN_CELL_REGEX = /CVSS:\d\.\d\/[A-Za-z:/]+/;
+
+// 查找基本信息表格中的 CVSS 行
+function findCvssRow(markdown: string): BasicInfoRow | null {
+  return parseBasicInfo(markdown)?.rows.find(row => row.field === 'cvss') ?? null;
+}
+
+function getDefaultValues(version: CvssVersion): Record<string, string> {
+  const values: Record<string, string> = {};
+  getCvssMetricDefinitions(version).forEach(def => {
+    values[def.key] = def.defaultValue;
+  });
+  return values;
+}
+
+// 从 CVSS 单元格中读取已有向量作为初始值（包括 TODO 行中的示例向量）
+function readInitialState(row: BasicInfoRow | null): {
+  version: CvssVersion;
+  values: Record<string, string>;
+} {
+  const vector = row?.details.match(CVSS_VECTOR_IN_CELL_REGEX)?.[0];
+  const parsed = vector ? parseCvssMetrics(vector) : null;
+  if (parsed?.ok && parsed.version && parsed.values) {
+    return {
+      version: parsed.version,
+      values: { ...getDefaultValues(parsed.version), ...parsed.values },
+    };
+  }
+  return { version: '3.1', values: getDefaultValues('3.1') };
+}
+
+// 生成写回单元格的内容："分数 向量"
+export function formatCvssCell(score: number, vector: string): string {
+  return `${score.toFixed(1)} ${vector}`;
+}
+
+// 通过编辑器事务改写 CVSS 行的 Details 单元格（可撤销）
+export function writeCvssToEditor(editor: EditorView, vector: string): boolean {
+  const result = calculateCvss(vector);
+  if (!result.ok || !result.data) {
+    logger.warn('Refusing to write invalid CVSS vector:', result.error);
+    return false;
+  }
+
+  const row = findCvssRow(editor.state.doc.toString());
+  if (!row || row.line > editor.state.doc.lines) {
+    return false;
+  }
+
+  const line = editor.state.doc.line(row.line);
+  const range = getTableCellRange(line.text, 1);
+  if (!range) {
+    return false;
+  }
+
+  editor.dispatch({
+    changes: {
+      from: line.from + range.from,
+      to: line.from + range.to,
+      insert: ` ${formatCvssCell(result.data.score, result.data.vector)} `,
+    },
+    userEvent: 'input.cvss',
+    effects: EditorView.scrollIntoView(line.from, { y: 'center' }),
+  });
+  return true;
+}
+
+// 初始化 CVSS 计算器弹窗（由预览区中的 .cvss-calculator-btn 打开）
+export function initCvssCalculator(editor: EditorView, previewContent: HTMLElement): void {
+  const modal = document.getElementById('cvss-modal') as HTMLElement | null;
+  const metricsContainer = document.getElementById('cvss-calculator-metrics') as HTMLElement | null;
+  const resultContainer = document.getElementById('cvss-calculator-result') as HTMLElement | null;
+  const applyBtn = document.getElementById('cvss-apply-btn') as HTMLButtonElement | null;
+  const versionInputs = Array.from(
+    document.querySelectorAll('input[name="cvss-version"]')
+  ) as HTMLInputElement[];
+  const closeTargets = Array.from(document.querySelectorAll('[data-cvss-close]')) as HTMLElement[];
+
+  if (!modal || !metricsContainer || !resultContainer || !applyBtn) {
+    logger.error('CVSS calculator elements not found');
+    return;
+  }
+
+  let version: CvssVersion = '3.1';
+  let values: Record<string, string> = getDefaultValues(version);
+  let hasCvssRow = false;
+
+  const currentVector = () => buildCvssVector(version, values);
+
+  const renderMetrics = () => {
+    const definitions = getCvssMetricDefinitions(version);
+    let html = '';
+    METRIC_GROUP_ORDER.forEach(group => {
+      const groupDefinitions = definitions.filter(def => def.group === group);
+      if (groupDefinitions.length === 0) return;
+
+      html += `<fieldset class="cvss-calculator-group" data-group="${group}">`;
+      html += `<legend>${CVSS_METRIC_GROUP_LABELS[group]}</legend>`;
+      groupDefinitions.forEach(def => {
+        html += '<div class="cvss-calculator-metric">';
+        html += `<span class="cvss-calculator-metric-name">${escapeHtml(def.name)} <code>${def.key}</code></span>`;
+        html += '<span class="cvss-calculator-options">';
+        def.options.forEach(option => {
+          const checked = values[def.key] === option.value ? ' checked' : '';
+          html += '<label class="cvss-calculator-option">';
+          html += `<input type="radio" name="cvss-metric-${def.key}" value="${escapeHtml(option.value)}" data-metric="${def.key}"${checked} />`;
+          html += `${escapeHtml(option.label)}</label>`;
+        });
+        html += '</span>';
+        html += '</div>';
+      });
+      html += '</fieldset>';
+    });
+    metricsContainer.innerHTML = html;
+  };
+
+  const renderResult = () => {
+    const result = calculateCvss(currentVector());
+    if (!result.ok || !result.data) {
+      resultContainer.innerHTML = `<span class="cvss-panel-error">${escapeHtml(result.error ?? 'CVSS 计算失败')}</span>`;
+      applyBtn.disabled = true;
+      return;
+    }
+
+    const { data } = result;
+    let html = `<span class="cvss-severity-chip" data-severity="${data.severity.toLowerCase()}">${data.score.toFixed(1)} ${CVSS_SEVERITY_LABELS[data.severity]}</span>`;
+    html += `<code class="cvss-vector">${escapeHtml(data.vector)}</code>`;
+    if (!hasCvssRow) {
+      html += '<span class="cvss-panel-error">未找到基本信息表格中的 CVSS 行，无法写入报告</span>';
+    }
+    resultContainer.innerHTML = html;
+    applyBtn.disabled = !hasCvssRow;
+  };
+
+  const syncVersionInputs = () => {
+    versionInputs.forEach(input => {
+      input.checked = input.value === version;
+    });
+  };
+
+  const openModal = () => {
+    const row = findCvssRow(editor.state.doc.toString());
+    const initial = readInitialState(row);
+    hasCvssRow = row !== null;
+    version = initial.version;
+    values = initial.values;
+    syncVersionInputs();
+    renderMetrics();
+    renderResult();
+    modal.classList.remove('hidden');
+    modal.setAttribute('aria-hidden', 'false');
+  };
+
+  const closeModal = () => {
+    modal.classList.add('hidden');
+    modal.setAttribute('aria-hidden', 'true');
+  };
+
+  previewContent.addEventListener('click', event => {
+    const target = event.target as HTMLElement | null;
+    if (!target?.closest('.cvss-calculator-btn')) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    openModal();
+  });
+
+  metricsContainer.addEventListener('change', event => {
+    const input = event.target as HTMLInputElement | null;
+    const key = input?.dataset.metric;
+    if (!input || !key) return;
+    values[key] = input.value;
+    renderResult();
+  });
+
+  versionInputs.forEach(input => {
+    input.addEventListener('change', () => {
+      const nextVersion = input.value as CvssVersion;
+      if (!input.checked || nextVersion === version) return;
+      // 切换版本时保留两个版本共有且取值合法的指标
+      const nextValues = getDefaultValues(nextVersion);
+      getCvssMetricDefinitions(nextVersion).forEach(def => {
+        const previous = values[def.key];
+        if (previous && def.options.some(option => option.value === previous)) {
+          nextValues[def.key] = previous;
+        }
+      });
+      version = nextVersion;
+      values = nextValues;
+      renderMetrics();
+      renderResult();
+    });
+  });
+
+  closeTargets.forEach(node => node.addEventListener('click', closeModal));
+
+  applyBtn.addEventListener('click', () => {
+    if (writeCvssToEditor(editor, currentVector())) {
+      closeModal();
+      editor.focus();
+    } else {
+      hasCvssRow = findCvssRow(editor.state.doc.toString()) !== null;
+      renderResult();
+    }
+  });
+}
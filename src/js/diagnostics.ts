@@ -0,0 +1,278 @@
+import { buildSyncChange, collectBasicInfoSync } from './basicInfoSync.js';
+import { isPlaceholderValue } from './fieldTypes.js';
+import { classifyMetadataItem, type ReportDocument, type ReportStage } from './reportDocument.js';
+import { getStageLabel, type LifecycleStageDefinition } from './schema.js';
+import { createSourceLines, lineFrom, lineText, lineTo, type SourceLines } from './sourceLines.js';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'unknown-stage'
+  | 'duplicate-stage'
+  | 'stage-order'
+  | 'invalid-field'
+  | 'table-columns'
+  | 'unclosed-fence'
+  | 'basic-info-mismatch';
+
+// 快速修复：基于报告源码偏移的文本替换
+export interface DiagnosticFix {
+  label: string;
+  changes: Array<{ from: number; to: number; insert: string }>;
+}
+
+export interface ReportDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number; // 1-based 行号
+  from: number;
+  to: number;
+  fixes: DiagnosticFix[];
+}
+
+const HEADING_TITLE_REGEX = /^( {0,3}#{1,6}[ \t]+)(.*?)([ \t]+#+)?[ \t]*$/;
+const FENCE_OPEN_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+// 将 "## 标题" 降级为 "### 标题"
+function demoteHeadingFix(index: SourceLines, line: number): DiagnosticFix {
+  const offset = lineFrom(index, line) + lineText(index, line).indexOf('#');
+  return { label: '降级为三级标题', changes: [{ from: offset, to: offset, insert: '#' }] };
+}
+
+function renameHeadingFix(index: SourceLines, line: number, title: string): DiagnosticFix | null {
+  const match = lineText(index, line).match(HEADING_TITLE_REGEX);
+  if (!match) return null;
+  const from = lineFrom(index, line) + match[1].length;
+  return {
+    label: `改为「${title}」`,
+    changes: [{ from, to: from + match[2].length, insert: title }],
+  };
+}
+
+function stageName(report: ReportDocument, definition: LifecycleStageDefinition): string {
+  return getStageLabel(definition, report.schema, report.language);
+}
+
+// 阶段标题：未识别、重复、顺序颠倒
+function checkStages(report: ReportDocument, index: SourceLines): ReportDiagnostic[] {
+  const diagnostics: ReportDiagnostic[] = [];
+  const seen = new Map<number, ReportStage>();
+  const presentNumbers = new Set(
+    report.stages.map(stage => stage.stageNum).filter((num): num is number => num !== null)
+  );
+  let previous: ReportStage | null = null;
+  let lastNumber = 0;
+
+  report.stages.forEach(stage => {
+    const line = stage.startLine;
+    const base = { line, from: lineFrom(index, line), to: lineTo(index, line) };
+
+    if (stage.stageNum === null) {
+      // 建议使用上一个阶段之后、报告中尚未出现的第一个阶段
+      const suggestion = report.schema.stages.find(
+        definition => definition.number > lastNumber && !presentNumbers.has(definition.number)
+      );
+      const rename = suggestion
+        ? renameHeadingFix(index, line, stageName(report, suggestion))
+        : null;
+      diagnostics.push({
+        ...base,
+        code: 'unknown-stage',
+        severity: 'warning',
+        message: `未识别的阶段标题「${stage.title}」，该章节不会出现在各视图中`,
+        fixes: rename ? [rename, demoteHeadingFix(index, line)] : [demoteHeadingFix(index, line)],
+      });
+      return;
+    }
+
+    const duplicate = seen.get(stage.stageNum);
+    if (duplicate) {
+      diagnostics.push({
+        ...base,
+        code: 'duplicate-stage',
+        severity: 'error',
+        message: `阶段「${stage.title}」与第 ${duplicate.startLine} 行的「${duplicate.title}」重复`,
+        fixes: [demoteHeadingFix(index, line)],
+      });
+      return;
+    }
+    seen.set(stage.stageNum, stage);
+
+    if (previous && stage.stageNum < lastNumber) {
+      diagnostics.push({
+        ...base,
+        code: 'stage-order',
+        severity: 'warning',
+        message: `阶段「${stage.title}」应位于「${previous.title}」之前（与生命周期顺序不一致）`,
+        fixes: [],
+      });
+    }
+    previous = stage;
+    lastNumber = Math.max(lastNumber, stage.stageNum);
+  });
+
+  return diagnostics;
+}
+
+// "- **字段**：值" 的值校验（字段类型见 fieldTypes.ts）
+function checkFields(stage: ReportStage, index: SourceLines): ReportDiagnostic[] {
+  const diagnostics: ReportDiagnostic[] = [];
+  stage.fields.forEach(field => {
+    const item = classifyMetadataItem(field.label, field.value, field.line);
+    if (!item.error || isPlaceholderValue(item.value)) {
+      return;
+    }
+    const text = lineText(index, field.line);
+    const valueStart = text.lastIndexOf(field.value);
+    const from = lineFrom(index, field.line) + Math.max(valueStart, 0);
+    const to = valueStart === -1 ? lineTo(index, field.line) : from + field.value.length;
+    // 无法推断正确的值（如日期），不提供快速修复，避免写入虚构的数据
+    diagnostics.push({
+      code: 'invalid-field',
+      severity: 'warning',
+      message: `${field.label}：${item.error}`,
+      line: field.line,
+      from,
+      to,
+      fixes: [],
+    });
+  });
+  return diagnostics;
+}
+
+// 按列数重写表格行，丢弃多余的单元格
+function truncateTableRow(text: string, count: number): string {
+  const indent = text.match(/^\s*/)?.[0] ?? '';
+  const cells = text
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(^|[^\\])\|$/, '$1')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim());
+  return `${indent}| ${cells.slice(0, count).join(' | ')} |`;
+}
+
+function checkTables(stage: ReportStage, index: SourceLines): ReportDiagnostic[] {
+  const diagnostics: ReportDiagnostic[] = [];
+  stage.tables.forEach(table => {
+    const columns = table.header.length;
+    // GFM 允许数据行缺少单元格（自动补空），只有多出的单元格会被丢弃
+    table.rows.forEach(row => {
+      if (row.cellCount <= columns) return;
+      const from = lineFrom(index, row.line);
+      const to = lineTo(index, row.line);
+      diagnostics.push({
+        code: 'table-columns',
+        severity: 'warning',
+        message: `表格行有 ${row.cellCount} 列，超出表头的 ${columns} 列，多余内容不会显示`,
+        line: row.line,
+        from,
+        to,
+        fixes: [
+          {
+            label: '删除多余的单元格',
+            changes: [{ from, to, insert: truncateTableRow(lineText(index, row.line), columns) }],
+          },
+        ],
+      });
+    });
+  });
+  return diagnostics;
+}
+
+// 未闭合的代码块：检查整篇报告（包括第一个阶段之前的标题与引言），未闭合时会吞掉之后的全部内容
+function checkUnclosedFence(report: ReportDocument, index: SourceLines): ReportDiagnostic[] {
+  let open: { fence: string; line: number } | null = null;
+  for (let line = report.bodyStartLine; line <= index.lines.length; line++) {
+    const text = lineText(index, line);
+    if (!open) {
+      const match = text.match(FENCE_OPEN_REGEX);
+      // 反引号围栏的信息字符串中不能包含反引号
+      if (match && !(match[1][0] === '`' && text.slice(match[0].length).includes('`'))) {
+        open = { fence: match[1], line };
+      }
+      continue;
+    }
+    const closing = new RegExp(
+      `^ {0,3}${open.fence[0] === '`' ? '`' : '~'}{${open.fence.length},}\\s*$`
+    );
+    if (closing.test(text)) {
+      open = null;
+    }
+  }
+  if (!open) {
+    return [];
+  }
+
+  // 闭合围栏优先插入到第一个被吞掉的标题之前
+  const { fence, line: startLine } = open;
+  const endLine = index.lines.length;
+  let headingLine: number | null = null;
+  for (let line = startLine + 1; line <= endLine; line++) {
+    if (/^ {0,3}#{1,6}\s/.test(lineText(index, line))) {
+      headingLine = line;
+      break;
+    }
+  }
+  const insertion =
+    headingLine === null
+      ? { from: lineTo(index, endLine), to: lineTo(index, endLine), insert: `\n${fence}` }
+      : {
+          from: lineFrom(index, headingLine),
+          to: lineFrom(index, headingLine),
+          insert: `${fence}\n\n`,
+        };
+
+  return [
+    {
+      code: 'unclosed-fence',
+      severity: 'error',
+      message: '代码块未闭合，之后的内容都会被当作代码',
+      line: startLine,
+      from: lineFrom(index, startLine),
+      to: lineTo(index, startLine),
+      fixes: [{ label: '插入闭合围栏', changes: [insertion] }],
+    },
+  ];
+}
+
+// 基本信息表格与阶段元数据中的同一日期不一致
+function checkBasicInfoSync(report: ReportDocument, index: SourceLines): ReportDiagnostic[] {
+  const diagnostics: ReportDiagnostic[] = [];
+  collectBasicInfoSync(report).forEach(item => {
+    const { stage, basicInfo } = item;
+    if (item.status !== 'mismatch' || !stage) return;
+
+    const fixes: DiagnosticFix[] = [];
+    const toStage = buildSyncChange(report, item, 'to-stage');
+    if (toStage) fixes.push({ label: '以基本信息为准', changes: [toStage] });
+    const toBasicInfo = buildSyncChange(report, item, 'to-basic-info');
+    if (toBasicInfo) fixes.push({ label: '以阶段为准', changes: [toBasicInfo] });
+
+    diagnostics.push({
+      code: 'basic-info-mismatch',
+      severity: 'warning',
+      message: `${stage.label}（${stage.date}）与基本信息 ${basicInfo.label}（${basicInfo.date}）不一致`,
+      line: stage.line,
+      from: lineFrom(index, stage.line),
+      to: lineTo(index, stage.line),
+      fixes,
+    });
+  });
+  return diagnostics;
+}
+
+// 对解析后的报告进行检查，结果按行号排序
+export function collectReportDiagnostics(report: ReportDocument): ReportDiagnostic[] {
+  const index = createSourceLines(report.source);
+  const diagnostics = [
+    ...checkStages(report, index),
+    ...checkBasicInfoSync(report, index),
+    ...checkUnclosedFence(report, index),
+  ];
+  report.stages.forEach(stage => {
+    diagnostics.push(...checkFields(stage, index), ...checkTables(stage, index));
+  });
+  return diagnostics.sort((a, b) => a.from - b.from);
+}
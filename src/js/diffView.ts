@@ -0,0 +1,420 @@
+import { escapeHtml } from './renderer.js';
+
+// diff / patch 代码块的解析与并排（split）、统一（unified）两种渲染方式
+
+export type DiffViewMode = 'split' | 'unified';
+
+export type DiffLineType = 'context' | 'add' | 'del' | 'note';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string; // 去掉 +/-/空格 前缀后的内容
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  header: string; // "@@ -1,3 +1,4 @@ func()"，无 hunk 头的片段为空字符串
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  oldPath: string | null; // 新增文件为 null
+  newPath: string | null; // 删除文件为 null
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+const DIFF_LANGUAGES = new Set(['diff', 'patch']);
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+const GIT_HEADER_REGEX = /^diff --git (?:"?a\/)?(.+?)"? (?:"?b\/)?(.+?)"?$/;
+const DEV_NULL = '/dev/null';
+
+const MAX_BLOCK_MODES = 50;
+
+// 各代码块当前的显示方式（按源码记录，预览重新渲染后保持；超出上限时丢弃最早的记录）
+const blockModes = new Map<string, DiffViewMode>();
+
+export function isDiffLanguage(language: string): boolean {
+  return DIFF_LANGUAGES.has(language.toLowerCase());
+}
+
+function normalizePath(path: string): string | null {
+  const trimmed = path.split('\t')[0].trim();
+  if (trimmed === DEV_NULL) {
+    return null;
+  }
+  return trimmed.replace(/^[ab]\//, '');
+}
+
+// 解析 unified diff；没有文件头、hunk 头的片段（如摘录的补丁）按以 1 开始的行号处理
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 1;
+  let newLine = 1;
+  // hunk 中剩余的行数，用于区分删除行 "--- x" 与下一个文件头；null 表示不限
+  let oldRemaining: number | null = null;
+  let newRemaining: number | null = null;
+
+  const startFile = (): DiffFile => {
+    file = { oldPath: null, newPath: null, hunks: [], additions: 0, deletions: 0 };
+    files.push(file);
+    hunk = null;
+    return file;
+  };
+  const currentFile = (): DiffFile => file ?? startFile();
+  const inHunk = () =>
+    hunk !== null && (oldRemaining === null || oldRemaining > 0 || (newRemaining ?? 0) > 0);
+
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+  lines.forEach((line, index) => {
+    if (!inHunk()) {
+      const gitHeader = line.match(GIT_HEADER_REGEX);
+      if (gitHeader) {
+        const next = startFile();
+        next.oldPath = normalizePath(gitHeader[1]);
+        next.newPath = normalizePath(gitHeader[2]);
+        return;
+      }
+      if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+        // 未使用 git 格式时以 "---" 开始新文件；git 格式下 "---" 紧跟在 diff --git 之后
+        const target = file !== null && file.hunks.length === 0 ? file : startFile();
+        target.oldPath = normalizePath(line.slice(4));
+        return;
+      }
+      if (line.startsWith('+++ ') && file !== null && file.hunks.length === 0) {
+        file.newPath = normalizePath(line.slice(4));
+        return;
+      }
+      if (
+        /^(index |new file mode|deleted file mode|old mode|new mode|similarity index)/.test(line)
+      ) {
+        return;
+      }
+      if (/^rename (from|to) /.test(line)) {
+        const path = line.replace(/^rename (from|to) /, '');
+        if (line.startsWith('rename from')) currentFile().oldPath = path;
+        else currentFile().newPath = path;
+        return;
+      }
+    }
+
+    const hunkHeader = line.match(HUNK_HEADER_REGEX);
+    if (hunkHeader) {
+      oldLine = Number(hunkHeader[1]);
+      newLine = Number(hunkHeader[3]);
+      oldRemaining = hunkHeader[2] !== undefined ? Number(hunkHeader[2]) : 1;
+      newRemaining = hunkHeader[4] !== undefined ? Number(hunkHeader[4]) : 1;
+      const target = currentFile();
+      hunk = { header: line, lines: [] };
+      target.hunks.push(hunk);
+      return;
+    }
+
+    const target = currentFile();
+    if (!hunk) {
+      // 没有 hunk 头的片段
+      oldLine = 1;
+      newLine = 1;
+      oldRemaining = null;
+      newRemaining = null;
+      hunk = { header: '', lines: [] };
+      target.hunks.push(hunk);
+    }
+
+    const marker = line.charAt(0);
+    const content = line.slice(1);
+    if (marker === '+') {
+      hunk.lines.push({ type: 'add', content, oldLine: null, newLine: newLine++ });
+      target.additions++;
+      if (newRemaining !== null) newRemaining--;
+    } else if (marker === '-') {
+      hunk.lines.push({ type: 'del', content, oldLine: oldLine++, newLine: null });
+      target.deletions++;
+      if (oldRemaining !== null) oldRemaining--;
+    } else if (marker === '\\') {
+      hunk.lines.push({ type: 'note', content: line, oldLine: null, newLine: null });
+    } else {
+      // 上下文行；摘录中缺少前导空格的行也按上下文处理
+      hunk.lines.push({
+        type: 'context',
+        content: marker === ' ' ? content : line,
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+      if (oldRemaining !== null) oldRemaining--;
+      if (newRemaining !== null) newRemaining--;
+    }
+  });
+
+  return files.filter(item => item.hunks.length > 0);
+}
+
+// 行内变化：去掉新旧两行的公共前缀与后缀，中间部分即为变化的内容
+function highlightChange(oldText: string, newText: string): { oldHtml: string; newHtml: string } {
+  let prefix = 0;
+  while (
+    prefix < oldText.length &&
+    prefix < newText.length &&
+    oldText[prefix] === newText[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const mark = (text: string) => {
+    const changed = text.slice(prefix, text.length - suffix);
+    return (
+      escapeHtml(text.slice(0, prefix)) +
+      (changed ? `<mark class="diff-change">${escapeHtml(changed)}</mark>` : '') +
+      escapeHtml(text.slice(text.length - suffix))
+    );
+  };
+  // 两行完全不同时不做行内标记
+  if (prefix === 0 && suffix === 0) {
+    return { oldHtml: escapeHtml(oldText), newHtml: escapeHtml(newText) };
+  }
+  return { oldHtml: mark(oldText), newHtml: mark(newText) };
+}
+
+interface RenderedLine {
+  line: DiffLine;
+  html: string;
+}
+
+// 将 hunk 拆分为上下文行与变更块（连续的删除行 + 新增行），变更块中按顺序配对计算行内变化
+function groupHunkLines(
+  hunk: DiffHunk
+): Array<
+  | { kind: 'context'; line: RenderedLine }
+  | { kind: 'change'; deleted: RenderedLine[]; added: RenderedLine[] }
+> {
+  const groups: ReturnType<typeof groupHunkLines> = [];
+  let index = 0;
+  while (index < hunk.lines.length) {
+    const line = hunk.lines[index];
+    if (line.type === 'context' || line.type === 'note') {
+      groups.push({ kind: 'context', line: { line, html: escapeHtml(line.content) } });
+      index++;
+      continue;
+    }
+
+    const deleted: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (hunk.lines[index]?.type === 'del') deleted.push(hunk.lines[index++]);
+    while (hunk.lines[index]?.type === 'add') added.push(hunk.lines[index++]);
+
+    const deletedHtml = deleted.map(item => escapeHtml(item.content));
+    const addedHtml = added.map(item => escapeHtml(item.content));
+    for (let pair = 0; pair < Math.min(deleted.length, added.length); pair++) {
+      const { oldHtml, newHtml } = highlightChange(deleted[pair].content, added[pair].content);
+      deletedHtml[pair] = oldHtml;
+      addedHtml[pair] = newHtml;
+    }
+    groups.push({
+      kind: 'change',
+      deleted: deleted.map((item, i) => ({ line: item, html: deletedHtml[i] })),
+      added: added.map((item, i) => ({ line: item, html: addedHtml[i] })),
+    });
+  }
+  return groups;
+}
+
+const MARKERS: Record<DiffLineType, string> = { context: ' ', add: '+', del: '-', note: '' };
+
+function lineNumberCell(value: number | null): string {
+  return `<td class="diff-line-num">${value ?? ''}</td>`;
+}
+
+function codeCell(rendered: RenderedLine | undefined): string {
+  if (!rendered) {
+    return '<td class="diff-line-num diff-empty"></td><td class="diff-code diff-empty"></td>';
+  }
+  const { line, html } = rendered;
+  const number = line.type === 'add' ? line.newLine : line.oldLine;
+  return `${lineNumberCell(number)}<td class="diff-code" data-type="${line.type}"><span class="diff-marker">${MARKERS[line.type]}</span>${html}</td>`;
+}
+
+function renderHunkHeaderRow(hunk: DiffHunk, colspan: number): string {
+  return hunk.header
+    ? `<tr class="diff-hunk-header"><td colspan="${colspan}">${escapeHtml(hunk.header)}</td></tr>`
+    : '';
+}
+
+function renderSplitTable(file: DiffFile): string {
+  let html = '<table class="diff-table diff-table-split"><tbody>';
+  file.hunks.forEach(hunk => {
+    html += renderHunkHeaderRow(hunk, 4);
+    groupHunkLines(hunk).forEach(group => {
+      if (group.kind === 'context') {
+        const { line, html: content } = group.line;
+        if (line.type === 'note') {
+          html += `<tr class="diff-row" data-type="note"><td colspan="4" class="diff-code" data-type="note">${content}</td></tr>`;
+          return;
+        }
+        html += '<tr class="diff-row" data-type="context">';
+        html += codeCell(group.line);
+        html += `${lineNumberCell(line.newLine)}<td class="diff-code" data-type="context"><span class="diff-marker"> </span>${content}</td>`;
+        html += '</tr>';
+        return;
+      }
+      const rows = Math.max(group.deleted.length, group.added.length);
+      for (let row = 0; row < rows; row++) {
+        html += '<tr class="diff-row" data-type="change">';
+        html += codeCell(group.deleted[row]);
+        html += codeCell(group.added[row]);
+        html += '</tr>';
+      }
+    });
+  });
+  html += '</tbody></table>';
+  return html;
+}
+
+function renderUnifiedTable(file: DiffFile): string {
+  let html = '<table class="diff-table diff-table-unified"><tbody>';
+  file.hunks.forEach(hunk => {
+    html += renderHunkHeaderRow(hunk, 3);
+    groupHunkLines(hunk).forEach(group => {
+      const lines = group.kind === 'context' ? [group.line] : [...group.deleted, ...group.added];
+      lines.forEach(({ line, html: content }) => {
+        html += `<tr class="diff-row" data-type="${line.type}">`;
+        html += lineNumberCell(line.oldLine);
+        html += lineNumberCell(line.newLine);
+        html += `<td class="diff-code" data-type="${line.type}"><span class="diff-marker">${MARKERS[line.type]}</span>${content}</td>`;
+        html += '</tr>';
+      });
+    });
+  });
+  html += '</tbody></table>';
+  return html;
+}
+
+function renderFileHeader(file: DiffFile): string {
+  let path: string;
+  let status = '';
+  if (file.oldPath === null && file.newPath === null) {
+    path = '代码片段';
+  } else if (file.oldPath === null) {
+    path = file.newPath ?? '';
+    status = '新增';
+  } else if (file.newPath === null) {
+    path = file.oldPath;
+    status = '删除';
+  } else if (file.oldPath !== file.newPath) {
+    path = `${file.oldPath} → ${file.newPath}`;
+    status = '重命名';
+  } else {
+    path = file.newPath;
+  }
+
+  let html = '<div class="diff-file-header">';
+  html += `<span class="diff-file-path">${escapeHtml(path)}</span>`;
+  if (status) {
+    html += `<span class="diff-file-status">${status}</span>`;
+  }
+  html += `<span class="diff-file-stats"><span class="diff-stat-add">+${file.additions}</span> <span class="diff-stat-del">−${file.deletions}</span></span>`;
+  html += '</div>';
+  return html;
+}
+
+// 渲染 diff 视图；两种模式都会输出，由外层的 data-mode 决定显示哪一种
+export function renderDiffViewHtml(files: DiffFile[], mode: DiffViewMode): string {
+  let html = `<div class="diff-view" data-mode="${mode}">`;
+  files.forEach(file => {
+    html += '<div class="diff-file">';
+    html += renderFileHeader(file);
+    html += `<div class="diff-file-body diff-body-split">${renderSplitTable(file)}</div>`;
+    html += `<div class="diff-file-body diff-body-unified">${renderUnifiedTable(file)}</div>`;
+    html += '</div>';
+  });
+  html += '</div>';
+  return html;
+}
+
+const MODE_LABELS: Record<DiffViewMode, string> = { split: '并排', unified: '统一' };
+
+function renderModeButtons(mode: DiffViewMode): string {
+  return (Object.keys(MODE_LABELS) as DiffViewMode[])
+    .map(
+      item =>
+        `<button type="button" class="diff-mode-btn${item === mode ? ' active' : ''}" data-diff-mode="${item}" aria-pressed="${item === mode}">${MODE_LABELS[item]}</button>`
+    )
+    .join('');
+}
+
+// 将 HTML 中的 diff / patch 代码块（需已由 wrapCodeBlocks 包装）替换为 diff 视图
+// 原代码块保留在 DOM 中（隐藏），复制按钮仍复制原始补丁
+export function renderDiffBlocks(html: string): string {
+  if (!/language-(diff|patch)\b/i.test(html)) {
+    return html;
+  }
+
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  container.querySelectorAll('.code-block-wrapper').forEach(wrapper => {
+    const codeEl = wrapper.querySelector('pre > code');
+    const language = wrapper.querySelector('.code-block-lang')?.textContent ?? '';
+    if (!codeEl || !isDiffLanguage(language)) {
+      return;
+    }
+    const source = codeEl.textContent ?? '';
+    const files = parseUnifiedDiff(source);
+    if (!files.some(file => file.additions > 0 || file.deletions > 0)) {
+      return;
+    }
+
+    const mode = blockModes.get(source) ?? 'split';
+    wrapper.classList.add('diff-block');
+    const copyBtn = wrapper.querySelector('.code-block-copy-btn');
+    if (copyBtn) {
+      const actions = document.createElement('div');
+      actions.className = 'code-block-actions';
+      actions.innerHTML = `<div class="diff-mode-toggle">${renderModeButtons(mode)}</div>`;
+      copyBtn.replaceWith(actions);
+      actions.appendChild(copyBtn);
+    }
+    wrapper
+      .querySelector('pre')
+      ?.insertAdjacentHTML('beforebegin', renderDiffViewHtml(files, mode));
+  });
+  return container.innerHTML;
+}
+
+// 切换单个代码块的显示方式
+export function setDiffBlockMode(button: HTMLElement): void {
+  const wrapper = button.closest<HTMLElement>('.diff-block');
+  const mode = button.dataset.diffMode as DiffViewMode | undefined;
+  if (!wrapper || !mode || !Object.hasOwn(MODE_LABELS, mode)) {
+    return;
+  }
+
+  const view = wrapper.querySelector<HTMLElement>('.diff-view');
+  if (view) {
+    view.dataset.mode = mode;
+  }
+  wrapper.querySelectorAll<HTMLElement>('.diff-mode-btn').forEach(item => {
+    const active = item.dataset.diffMode === mode;
+    item.classList.toggle('active', active);
+    item.setAttribute('aria-pressed', String(active));
+  });
+  const source = wrapper.querySelector('pre > code')?.textContent ?? '';
+  blockModes.delete(source);
+  if (blockModes.size >= MAX_BLOCK_MODES) {
+    const oldest = blockModes.keys().next().value;
+    if (oldest !== undefined) {
+      blockModes.delete(oldest);
+    }
+  }
+  blockModes.set(source, mode);
+}
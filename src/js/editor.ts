@@ -1,5 +1,13 @@
 import { EditorView, lineNumbers, KeyBinding } from '@codemirror/view';
-import { EditorState, Extension } from '@codemirror/state';
+import {
+  ChangeSet,
+  EditorState,
+  Extension,
+  MapMode,
+  StateEffect,
+  StateField,
+  type ChangeDesc,
+} from '@codemirror/state';
 import { markdown } from '@codemirror/lang-markdown';
 import { oneDark } from '@codemirror/theme-one-dark';
 import {
@@ -11,6 +19,10 @@ import {
 } from '@codemirror/commands';
 import { keymap } from '@codemirror/view';
 import { foldGutter, foldKeymap, foldService, codeFolding, syntaxTree } from '@codemirror/language';
+import { lintGutter, setDiagnostics, type Diagnostic } from '@codemirror/lint';
+import type { DiagnosticFix, ReportDiagnostic } from './diagnostics.js';
+import { parseFrontMatter } from './frontMatter.js';
+import { createMarkerMatcher, resolveCompletionScoring } from './scoring.js';
 
 // 编辑器配置选项
 export interface EditorOptions {
@@ -18,7 +30,7 @@ export interface EditorOptions {
   lineNumbers?: boolean;
   lineWrapping?: boolean;
   autofocus?: boolean;
-  onUpdate?: (view: EditorView) => void;
+  onUpdate?: (view: EditorView, changes: ChangeSet) => void;
   onSave?: (view: EditorView) => void;
 }
 
@@ -110,6 +122,40 @@ function isSelectionInCodeBlock(state: EditorState): boolean {
   return state.selection.ranges.every(range => isPositionInCodeBlock(state, range.from));
 }
 
+// 跳转到光标之后（direction 为 -1 时为之前）的下一个未完成项，到达文档边界后从另一端继续查找
+// 未完成标记与完成度评分一致（设置与 front matter 中的 markers）
+function gotoTodo(view: EditorView, direction: 1 | -1): boolean {
+  const { doc, selection } = view.state;
+  const current = doc.lineAt(selection.main.head).number;
+  const { data, block } = parseFrontMatter(doc.toString());
+  const isMarked = createMarkerMatcher(resolveCompletionScoring(data.completion).markers);
+  // front matter 中的配置（如 markers 本身）不算未完成项
+  const bodyStartLine = block ? (block.endLine ?? doc.lines) + 1 : 1;
+
+  for (let offset = 1; offset <= doc.lines; offset++) {
+    const number = ((((current - 1 + offset * direction) % doc.lines) + doc.lines) % doc.lines) + 1;
+    const line = doc.line(number);
+    if (number >= bodyStartLine && isMarked(line.text)) {
+      // 选中整行内容（不含行首缩进）
+      const pos = line.from + (line.text.length - line.text.trimStart().length);
+      view.dispatch({
+        selection: { anchor: pos, head: line.to },
+        effects: EditorView.scrollIntoView(pos, { y: 'center' }),
+      });
+      return true;
+    }
+  }
+  return false;
+}
+
+export function gotoNextTodo(view: EditorView): boolean {
+  return gotoTodo(view, 1);
+}
+
+export function gotoPreviousTodo(view: EditorView): boolean {
+  return gotoTodo(view, -1);
+}
+
 // 初始化 CodeMirror 6 编辑器
 export function initEditor(parentElement: HTMLElement, options: EditorOptions = {}): EditorView {
   const {
@@ -166,12 +212,17 @@ export function initEditor(parentElement: HTMLElement, options: EditorOptions =
       openText: '▾',
       closedText: '▸',
     }),
+    // 报告诊断槽（诊断由 setReportDiagnostics 推送）
+    lintGutter(),
+    diagnosticChangesField,
     keymap.of([
       ...historyKeymap,
       ...codeBlockTabKeyBindings,
       ...defaultKeymap,
       ...foldKeymap,
       saveKeyBinding,
+      // Alt+T / Shift+Alt+T：跳转到下一个 / 上一个未完成项
+      { key: 'Alt-t', run: gotoNextTodo, shift: gotoPreviousTodo, preventDefault: true },
     ]),
     EditorView.theme({
       '&': {
@@ -274,7 +325,7 @@ export function initEditor(parentElement: HTMLElement, options: EditorOptions =
     extensions.push(
       EditorView.updateListener.of(update => {
         if (update.docChanged) {
-          onUpdate(update.view);
+          onUpdate(update.view, update.changes);
         }
       })
     );
@@ -296,3 +347,56 @@ export function initEditor(parentElement: HTMLElement, options: EditorOptions =
 
   return view;
 }
+
+// 诊断生成之后文档发生的全部修改，用于把快速修复的编辑映射到当前文档
+const resetDiagnosticChanges = StateEffect.define<null>();
+
+const diagnosticChangesField = StateField.define<ChangeDesc>({
+  create: state => ChangeSet.empty(state.doc.length).desc,
+  update: (changes, tr) => {
+    if (tr.effects.some(effect => effect.is(resetDiagnosticChanges))) {
+      return ChangeSet.empty(tr.state.doc.length).desc;
+    }
+    return tr.docChanged ? changes.composeDesc(tr.changes.desc) : changes;
+  },
+});
+
+// 应用快速修复；修复中的每处编辑都按诊断生成后的文档修改重新定位，
+// 目标位置所在的文本已被删除时放弃修复并返回 false
+export function applyDiagnosticFix(view: EditorView, fix: DiagnosticFix): boolean {
+  const mapping = view.state.field(diagnosticChangesField, false);
+  const changes: Array<{ from: number; to: number; insert: string }> = [];
+  for (const change of fix.changes) {
+    const from = mapping ? mapping.mapPos(change.from, -1, MapMode.TrackDel) : change.from;
+    const to = mapping ? mapping.mapPos(change.to, 1, MapMode.TrackDel) : change.to;
+    if (from === null || to === null || to > view.state.doc.length) {
+      return false;
+    }
+    changes.push({ from, to: Math.max(from, to), insert: change.insert });
+  }
+
+  view.dispatch({ changes, scrollIntoView: true });
+  view.focus();
+  return true;
+}
+
+// 将报告诊断显示在编辑器中（行内下划线、诊断槽及悬停提示）
+export function setReportDiagnostics(view: EditorView, diagnostics: ReportDiagnostic[]): void {
+  const length = view.state.doc.length;
+  const converted: Diagnostic[] = diagnostics.map(diagnostic => ({
+    from: Math.min(diagnostic.from, length),
+    to: Math.min(diagnostic.to, length),
+    severity: diagnostic.severity,
+    source: diagnostic.code,
+    message: diagnostic.message,
+    actions: diagnostic.fixes.map(fix => ({
+      name: fix.label,
+      apply: (target: EditorView) => {
+        applyDiagnosticFix(target, fix);
+      },
+    })),
+  }));
+  view.dispatch(setDiagnostics(view.state, converted), {
+    effects: resetDiagnosticChanges.of(null),
+  });
+}
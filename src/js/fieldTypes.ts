@@ -0,0 +1,543 @@
+import { escapeHtml, getSanitizeMode } from './renderer.js';
+import { isSafeUrl } from './sanitizer.js';
+
+// 元数据的展示分类（对应 .metadata-*-item 样式）
+export type MetadataCategory = 'time' | 'person' | 'version' | 'link' | 'text';
+
+// 字段值拆分后的结构：Markdown 链接会拆成文本与地址
+export interface FieldValue {
+  raw: string;
+  text: string;
+  url: string | null;
+}
+
+// 字段类型定义
+export interface FieldTypeDefinition {
+  id: string;
+  name: string; // 类型名称，用于提示
+  icon: string;
+  category: MetadataCategory;
+  labelKeywords?: string[]; // 字段名关键词（不区分大小写，英文按单词匹配）
+  valuePattern?: RegExp; // 字段值特征，字段名无法判断时使用
+  validate?: (value: FieldValue) => string | null; // 返回错误信息，合法时返回 null
+  normalize?: (value: FieldValue) => string;
+  render?: (value: FieldValue, normalized: string) => string; // 返回 HTML
+}
+
+// 字段值的识别结果
+export interface FieldClassification {
+  type: FieldTypeDefinition;
+  normalized: string;
+  error: string | null;
+}
+
+const MARKDOWN_LINK_REGEX = /^\[([^\]]+)\]\(([^)]+)\)$/;
+
+export function splitFieldValue(raw: string): FieldValue {
+  const value = raw.trim();
+  const match = value.match(MARKDOWN_LINK_REGEX);
+  if (match) {
+    return { raw: value, text: match[1].trim(), url: match[2].trim() };
+  }
+  return { raw: value, text: value, url: null };
+}
+
+// 链接同样遵循当前报告的过滤策略（远程报告为 strict）
+function renderLink(url: string, text: string, className = ''): string {
+  if (!isSafeUrl(url, 'link', getSanitizeMode())) {
+    return `<span class="metadata-value${className ? ` ${className}` : ''}">${text}</span>`;
+  }
+  return `<a class="metadata-value metadata-link${className ? ` ${className}` : ''}" href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${text}</a>`;
+}
+
+// 解析并渲染包含 Markdown 链接的混合文本
+// 例如: "Michael Crosby([@crosbymichael](https://github.com/crosbymichael))"
+export function renderValueWithMarkdownLinks(value: string): string {
+  const fullLink = value.match(MARKDOWN_LINK_REGEX);
+  if (fullLink) {
+    return renderLink(fullLink[2], escapeHtml(fullLink[1]));
+  }
+
+  const linkPattern = /\[([^\]]+)\]\(([^)]+)\)/g;
+  const matches = Array.from(value.matchAll(linkPattern));
+
+  if (matches.length === 0) {
+    if (value.startsWith('http') || value.includes('://')) {
+      return renderLink(value, escapeHtml(value));
+    }
+    return `<span class="metadata-value">${escapeHtml(value)}</span>`;
+  }
+
+  // 有链接，需要混合渲染
+  let result = '';
+  let lastIndex = 0;
+  matches.forEach(match => {
+    const matchIndex = match.index!;
+    if (matchIndex > lastIndex) {
+      result += escapeHtml(value.substring(lastIndex, matchIndex));
+    }
+    result += renderLink(match[2], escapeHtml(match[1]));
+    lastIndex = matchIndex + match[0].length;
+  });
+  if (lastIndex < value.length) {
+    result += escapeHtml(value.substring(lastIndex));
+  }
+
+  return `<span class="metadata-value">${result}</span>`;
+}
+
+// 标识符类字段：有链接时使用原链接，否则使用 fallbackUrl
+function renderIdentifier(value: FieldValue, label: string, fallbackUrl: string | null): string {
+  const url = value.url ?? fallbackUrl;
+  const text = `<code class="metadata-code">${escapeHtml(label)}</code>`;
+  return url ? renderLink(url, text) : `<span class="metadata-value">${text}</span>`;
+}
+
+// 模板占位值（未填写的字段）
+export function isPlaceholderValue(value: string): boolean {
+  const trimmed = value.trim();
+  if (!trimmed) return true;
+
+  if (
+    trimmed.includes('需要修改') ||
+    trimmed.includes('待填写') ||
+    trimmed.includes('待完成') ||
+    trimmed.includes('待处理') ||
+    trimmed.includes('TBD') ||
+    trimmed.includes('N/A') ||
+    trimmed === '...'
+  ) {
+    return true;
+  }
+
+  const chinesePlaceholders = [
+    '研究者名称',
+    '研究机构/公司',
+    '开发者名称',
+    '研究者',
+    '机构',
+    '公司',
+    '开发者',
+  ];
+  if (
+    chinesePlaceholders.some(
+      placeholder => trimmed === placeholder || trimmed.includes(placeholder)
+    )
+  ) {
+    return true;
+  }
+
+  if (
+    /^YYYY-MM-DD$/i.test(trimmed) ||
+    (trimmed.match(/^\d{4}-\d{2}-\d{2}$/) && trimmed.startsWith('2000-01-01'))
+  ) {
+    return true;
+  }
+
+  if (
+    /^v[XxYyZz]\.([XxYyZz]|\d+)\.([XxYyZz]|\d+)(\s*-\s*v[XxYyZz](\.[XxYyZz\d]+)*)?$/i.test(trimmed)
+  ) {
+    return true;
+  }
+
+  // 模板中的候选项（如 "高/中/低"）
+  if (/^(高|中|低|严重)(\/(高|中|低|严重)){2,}$/.test(trimmed)) {
+    return true;
+  }
+
+  if (/^(SA|CVE|CWE)-[Xx]{2,}$/i.test(trimmed)) {
+    return true;
+  }
+
+  if (trimmed.includes('example.com') || trimmed.includes('example.org')) {
+    return true;
+  }
+
+  if (
+    /^[a-f0-9]{6,8}$/i.test(trimmed) &&
+    (trimmed.toLowerCase().startsWith('def') ||
+      trimmed.toLowerCase().startsWith('abc') ||
+      trimmed.toLowerCase() === 'commit_sha')
+  ) {
+    return true;
+  }
+
+  const linkMatch = trimmed.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
+  if (linkMatch) {
+    const linkText = linkMatch[1].trim();
+    const linkUrl = linkMatch[2].trim();
+
+    const placeholderTexts = [
+      'username',
+      'XXX',
+      'commit_sha',
+      'commit',
+      'sha',
+      '研究者名称',
+      '开发者名称',
+      '研究机构/公司',
+      '研究者',
+      '机构',
+      '公司',
+      '开发者',
+      'vX.X.X',
+      'vX.Y.Z',
+      'SA-XXXX',
+      'def5678',
+      'abc1234',
+    ];
+
+    const normalizedLinkText = linkText.toLowerCase();
+    if (
+      placeholderTexts.some(placeholder => {
+        const normalizedPlaceholder = placeholder.toLowerCase();
+        return (
+          normalizedLinkText === normalizedPlaceholder ||
+          normalizedLinkText === '@' + normalizedPlaceholder ||
+          normalizedLinkText === '#' + normalizedPlaceholder ||
+          normalizedLinkText.includes(normalizedPlaceholder)
+        );
+      })
+    ) {
+      return true;
+    }
+
+    const normalizedUrl = linkUrl.toLowerCase();
+    if (
+      normalizedUrl.includes('/username') ||
+      normalizedUrl.includes('/xxx') ||
+      normalizedUrl.includes('/commit_sha') ||
+      normalizedUrl.includes('/commit/commit') ||
+      normalizedUrl.includes('/pull/xxx') ||
+      normalizedUrl.includes('/org/repo') ||
+      normalizedUrl.includes('example.com') ||
+      normalizedUrl.includes('example.org')
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// 常见 CWE 名称（CWE Top 25 及漏洞报告中的常见类型）
+export const CWE_NAMES: Record<string, string> = {
+  '20': 'Improper Input Validation',
+  '22': 'Path Traversal',
+  '59': 'Link Following',
+  '77': 'Command Injection',
+  '78': 'OS Command Injection',
+  '79': 'Cross-site Scripting',
+  '89': 'SQL Injection',
+  '94': 'Code Injection',
+  '119': 'Improper Restriction of Operations within Memory Buffer',
+  '121': 'Stack-based Buffer Overflow',
+  '122': 'Heap-based Buffer Overflow',
+  '125': 'Out-of-bounds Read',
+  '190': 'Integer Overflow or Wraparound',
+  '200': 'Exposure of Sensitive Information',
+  '269': 'Improper Privilege Management',
+  '276': 'Incorrect Default Permissions',
+  '287': 'Improper Authentication',
+  '295': 'Improper Certificate Validation',
+  '306': 'Missing Authentication for Critical Function',
+  '327': 'Use of a Broken or Risky Cryptographic Algorithm',
+  '352': 'Cross-Site Request Forgery',
+  '362': 'Race Condition',
+  '400': 'Uncontrolled Resource Consumption',
+  '401': 'Missing Release of Memory after Effective Lifetime',
+  '415': 'Double Free',
+  '416': 'Use After Free',
+  '434': 'Unrestricted Upload of File with Dangerous Type',
+  '444': 'HTTP Request Smuggling',
+  '476': 'NULL Pointer Dereference',
+  '502': 'Deserialization of Untrusted Data',
+  '601': 'Open Redirect',
+  '611': 'XML External Entity Reference',
+  '639': 'Authorization Bypass Through User-Controlled Key',
+  '770': 'Allocation of Resources Without Limits',
+  '787': 'Out-of-bounds Write',
+  '798': 'Use of Hard-coded Credentials',
+  '843': 'Type Confusion',
+  '862': 'Missing Authorization',
+  '863': 'Incorrect Authorization',
+  '918': 'Server-Side Request Forgery',
+  '1321': 'Prototype Pollution',
+};
+
+// 严重程度的规范取值及别名
+const SEVERITY_ALIASES: Record<string, string[]> = {
+  critical: ['critical', '严重', '超危'],
+  high: ['high', '高', '高危'],
+  medium: ['medium', 'moderate', '中', '中危'],
+  low: ['low', '低', '低危'],
+  none: ['none', 'info', 'informational', '无', '信息'],
+};
+
+function normalizeSeverity(text: string): string | null {
+  const lower = text.trim().toLowerCase();
+  const entry = Object.entries(SEVERITY_ALIASES).find(([, aliases]) => aliases.includes(lower));
+  return entry ? entry[0] : null;
+}
+
+// 支持 YYYY-MM-DD、YYYY/MM/DD、YYYY.MM.DD、YYYYMMDD、YYYY年MM月DD日，可带时间或仅到月份
+const DATE_FORMATS = [
+  /^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?$/,
+  /^(\d{4})(\d{2})(\d{2})$/,
+  /^(\d{4})年(\d{1,2})月(?:(\d{1,2})日)?$/,
+];
+
+function parseDateParts(text: string): { year: number; month: number; day: number | null } | null {
+  const value = text.trim();
+  const match = DATE_FORMATS.map(format => value.match(format)).find(Boolean);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = match[3] ? Number(match[3]) : null;
+  if (month < 1 || month > 12) return null;
+  if (day !== null && (day < 1 || day > new Date(year, month, 0).getDate())) return null;
+  return { year, month, day };
+}
+
+const VERSION_TOKEN_REGEX = /\bv?\d+(\.\d+){1,3}([-+][\w.]+)?\b/i;
+const COMMIT_SHA_REGEX = /^[0-9a-f]{7,40}$/i;
+
+function commitShaOf(value: FieldValue): string | null {
+  if (COMMIT_SHA_REGEX.test(value.text)) {
+    return value.text.toLowerCase();
+  }
+  const fromUrl = value.url?.match(/\/commits?\/([0-9a-f]{7,40})\b/i);
+  return fromUrl ? fromUrl[1].toLowerCase() : null;
+}
+
+function pullNumberOf(value: FieldValue): string | null {
+  const fromText = value.text.match(/^(?:#|!|PR\s*#?)(\d+)$/i) ?? value.text.match(/^(\d+)$/);
+  if (fromText) {
+    return fromText[1];
+  }
+  const fromUrl = value.url?.match(/\/(?:pull|pulls|merge_requests)\/(\d+)\b/);
+  return fromUrl ? fromUrl[1] : null;
+}
+
+// 内置字段类型；识别时按顺序匹配，person 与 text 作为兜底
+const BUILTIN_FIELD_TYPES: FieldTypeDefinition[] = [
+  {
+    id: 'cve',
+    name: 'CVE 编号',
+    icon: '🆔',
+    category: 'link',
+    labelKeywords: ['CVE'],
+    valuePattern: /^CVE-\d{4}-\d+$/i,
+    validate: value =>
+      /^CVE-\d{4}-\d{4,}$/i.test(value.text) ? null : 'CVE 编号格式应为 CVE-YYYY-NNNN',
+    normalize: value => value.text.toUpperCase(),
+    render: (value, normalized) =>
+      renderIdentifier(value, normalized, `https://nvd.nist.gov/vuln/detail/${normalized}`),
+  },
+  {
+    id: 'cwe',
+    name: 'CWE 编号',
+    icon: '🧬',
+    category: 'link',
+    labelKeywords: ['CWE'],
+    valuePattern: /^CWE-\d+\b/i,
+    validate: value => (/^CWE-\d+\b/i.test(value.text) ? null : 'CWE 编号格式应为 CWE-NNN'),
+    normalize: value => value.text.match(/^CWE-(\d+)/i)?.[0].toUpperCase() ?? value.text,
+    render: (value, normalized) => {
+      const id = normalized.replace(/^CWE-/, '');
+      const name = CWE_NAMES[id];
+      const html = renderIdentifier(
+        value,
+        normalized,
+        /^\d+$/.test(id) ? `https://cwe.mitre.org/data/definitions/${id}.html` : null
+      );
+      return name
+        ? `${html}<span class="metadata-value metadata-hint">${escapeHtml(name)}</span>`
+        : html;
+    },
+  },
+  {
+    id: 'ghsa',
+    name: 'GHSA 编号',
+    icon: '🛡️',
+    category: 'link',
+    labelKeywords: ['GHSA'],
+    valuePattern: /^GHSA-/i,
+    validate: value =>
+      /^GHSA(-[23456789cfghjmpqrvwx]{4}){3}$/i.test(value.text)
+        ? null
+        : 'GHSA 编号格式应为 GHSA-xxxx-xxxx-xxxx',
+    normalize: value => `GHSA-${value.text.slice(5).toLowerCase()}`,
+    render: (value, normalized) =>
+      renderIdentifier(value, normalized, `https://github.com/advisories/${normalized}`),
+  },
+  {
+    id: 'commit',
+    name: 'Commit SHA',
+    icon: '🔀',
+    category: 'link',
+    labelKeywords: ['Commit', 'SHA'],
+    valuePattern: COMMIT_SHA_REGEX,
+    validate: value => (commitShaOf(value) ? null : 'Commit 应为 7-40 位十六进制 SHA'),
+    normalize: value => commitShaOf(value) ?? value.text,
+    render: (value, normalized) =>
+      renderIdentifier(
+        value,
+        COMMIT_SHA_REGEX.test(normalized) ? normalized.slice(0, 7) : normalized,
+        null
+      ),
+  },
+  {
+    id: 'pr',
+    name: 'PR 编号',
+    icon: '🔃',
+    category: 'link',
+    labelKeywords: ['PR', 'Pull Request', 'Merge Request', 'MR'],
+    valuePattern: /^#\d+$/,
+    validate: value => (pullNumberOf(value) ? null : 'PR 应为 #编号 或 PR 链接'),
+    normalize: value => {
+      const number = pullNumberOf(value);
+      return number ? `#${number}` : value.text;
+    },
+    render: (value, normalized) => renderIdentifier(value, normalized, null),
+  },
+  {
+    id: 'severity',
+    name: '严重程度',
+    icon: '🚨',
+    category: 'text',
+    labelKeywords: ['严重程度', '严重性', '危害等级', '威胁等级', '风险等级', 'Severity', 'Risk'],
+    validate: value =>
+      normalizeSeverity(value.text)
+        ? null
+        : '严重程度应为 严重/高/中/低 或 Critical/High/Medium/Low',
+    normalize: value => normalizeSeverity(value.text) ?? value.text,
+    render: (value, normalized) =>
+      `<span class="metadata-severity-chip" data-severity="${escapeHtml(normalized)}">${escapeHtml(value.text)}</span>`,
+  },
+  {
+    id: 'semver',
+    name: '版本号',
+    icon: '📦',
+    category: 'version',
+    labelKeywords: ['版本', 'Version', 'Release'],
+    valuePattern: /^v?\d+\.\d+\.\d+([-+][\w.]+)?$/i,
+    validate: value =>
+      VERSION_TOKEN_REGEX.test(value.text) ? null : '未找到合法的版本号（如 1.2.3）',
+    normalize: value => value.text.trim(),
+  },
+  {
+    id: 'date',
+    name: '日期',
+    icon: '🕒',
+    category: 'time',
+    labelKeywords: ['时间', '日期', 'Date', 'Time'],
+    validate: value => (parseDateParts(value.text) ? null : '日期格式应为 YYYY-MM-DD'),
+    normalize: value => {
+      const parts = parseDateParts(value.text);
+      if (!parts) return value.text;
+      const month = String(parts.month).padStart(2, '0');
+      return parts.day === null
+        ? `${parts.year}-${month}`
+        : `${parts.year}-${month}-${String(parts.day).padStart(2, '0')}`;
+    },
+  },
+  {
+    id: 'url',
+    name: '链接',
+    icon: '🔗',
+    category: 'link',
+    labelKeywords: ['URL', 'Link', '链接', '地址'],
+    valuePattern: /^https?:\/\//i,
+    validate: value => {
+      const url = value.url ?? value.text;
+      try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+          ? null
+          : '链接必须以 http:// 或 https:// 开头';
+      } catch {
+        return '链接格式无效';
+      }
+    },
+    normalize: value => value.url ?? value.text,
+  },
+  {
+    id: 'person',
+    name: '人员',
+    icon: '👤',
+    category: 'person',
+    labelKeywords: ['者', '人员', 'Author', 'Researcher', 'Developer', 'Reporter'],
+  },
+];
+
+const TEXT_FIELD_TYPE: FieldTypeDefinition = {
+  id: 'text',
+  name: '文本',
+  icon: '',
+  category: 'text',
+};
+
+// 自定义类型优先于内置类型参与识别
+let customFieldTypes: FieldTypeDefinition[] = [];
+
+export function registerFieldType(definition: FieldTypeDefinition): void {
+  customFieldTypes = [definition, ...customFieldTypes.filter(item => item.id !== definition.id)];
+}
+
+export function getFieldTypes(): FieldTypeDefinition[] {
+  const customIds = new Set(customFieldTypes.map(item => item.id));
+  return [
+    ...customFieldTypes,
+    ...BUILTIN_FIELD_TYPES.filter(item => !customIds.has(item.id)),
+    TEXT_FIELD_TYPE,
+  ];
+}
+
+export function getFieldType(id: string): FieldTypeDefinition {
+  return getFieldTypes().find(item => item.id === id) ?? TEXT_FIELD_TYPE;
+}
+
+function labelMatches(label: string, keyword: string): boolean {
+  const lowerLabel = label.toLowerCase();
+  const lowerKeyword = keyword.toLowerCase();
+  if (!/^[a-z0-9 ]+$/.test(lowerKeyword)) {
+    return lowerLabel.includes(lowerKeyword);
+  }
+  // 英文关键词按单词匹配，避免 PR 命中 Priority
+  const escaped = lowerKeyword.replace(/\s+/g, '\\s+');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lowerLabel);
+}
+
+// 先按字段名识别，再按字段值识别；校验与规范化由对应类型完成
+export function classifyField(label: string, rawValue: string): FieldClassification {
+  const value = splitFieldValue(rawValue);
+  const types = getFieldTypes();
+  const type =
+    types.find(item => item.labelKeywords?.some(keyword => labelMatches(label, keyword))) ??
+    types.find(item => item.valuePattern?.test(value.text) || item.valuePattern?.test(value.raw)) ??
+    TEXT_FIELD_TYPE;
+
+  if (!value.raw) {
+    return { type, normalized: '', error: null };
+  }
+  return {
+    type,
+    normalized: type.normalize ? type.normalize(value) : value.raw,
+    error: type.validate ? type.validate(value) : null,
+  };
+}
+
+// 渲染字段值；没有专用渲染器或值不合法时按普通文本（支持 Markdown 链接）渲染
+export function renderFieldValue(
+  typeId: string,
+  rawValue: string,
+  normalized: string,
+  error: string | null
+): string {
+  const type = getFieldType(typeId);
+  if (!type.render || error) {
+    return renderValueWithMarkdownLinks(rawValue);
+  }
+  return type.render(splitFieldValue(rawValue), normalized);
+}
@@ -0,0 +1,330 @@
+import { LineCounter, isMap, isPair, isScalar, isSeq, parseDocument, type Node } from 'yaml';
+import { normalizeCompletionScoring, type CompletionScoringOverrides } from './scoring.js';
+
+// 变更记录条目
+export interface ChangelogEntry {
+  version: string;
+  description: string;
+  date?: string;
+  line: number | null; // 1-based 行号（相对整个文档）
+}
+
+// 报告 front matter 模型
+export interface ReportFrontMatter {
+  changelog: ChangelogEntry[];
+  tags: string[];
+  severity: string | null;
+  owners: string[];
+  templateVersion: string | null;
+  schema: string | null; // 生命周期 schema id
+  completion: CompletionScoringOverrides | null; // 覆盖设置中的完成度规则
+  extra: Record<string, unknown>; // 未识别的键原样保留
+}
+
+// front matter 解析错误
+export interface FrontMatterError {
+  message: string;
+  line: number; // 1-based 行号（相对整个文档）
+  column?: number;
+}
+
+// front matter 在文档中的位置
+export interface FrontMatterBlock {
+  raw: string; // 分隔线之间的 YAML 原文
+  startLine: number; // 起始 --- 所在行
+  endLine: number | null; // 结束 --- 所在行，null 表示未闭合
+  contentStartLine: number; // YAML 内容第一行
+}
+
+export interface FrontMatterResult {
+  block: FrontMatterBlock | null;
+  data: ReportFrontMatter;
+  errors: FrontMatterError[];
+}
+
+const FRONT_MATTER_DELIMITER = /^---\s*$/;
+const FRONT_MATTER_END = /^(---|\.\.\.)\s*$/;
+
+// 已知键及其别名
+const KEY_ALIASES: Record<string, keyof Omit<ReportFrontMatter, 'extra'>> = {
+  changelog: 'changelog',
+  tags: 'tags',
+  tag: 'tags',
+  severity: 'severity',
+  owners: 'owners',
+  owner: 'owners',
+  template_version: 'templateVersion',
+  templateVersion: 'templateVersion',
+  'template-version': 'templateVersion',
+  schema: 'schema',
+  lifecycle: 'schema',
+  completion: 'completion',
+  scoring: 'completion',
+};
+
+export function createEmptyFrontMatter(): ReportFrontMatter {
+  return {
+    changelog: [],
+    tags: [],
+    severity: null,
+    owners: [],
+    templateVersion: null,
+    schema: null,
+    completion: null,
+    extra: {},
+  };
+}
+
+// 定位文档开头的 front matter（仅当第一个非空行为 --- 时生效）
+export function locateFrontMatter(markdown: string): FrontMatterBlock | null {
+  const lines = markdown.split('\n');
+  let start = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmedLine = lines[i].trim();
+    if (trimmedLine.length === 0) {
+      continue;
+    }
+    if (FRONT_MATTER_DELIMITER.test(trimmedLine)) {
+      start = i;
+    }
+    break;
+  }
+
+  if (start === -1) {
+    return null;
+  }
+
+  for (let i = start + 1; i < lines.length; i++) {
+    if (FRONT_MATTER_END.test(lines[i].trim())) {
+      return {
+        raw: lines.slice(start + 1, i).join('\n'),
+        startLine: start + 1,
+        endLine: i + 1,
+        contentStartLine: start + 2,
+      };
+    }
+  }
+
+  // 未闭合：与旧逻辑保持一致，其后的内容全部视为 front matter
+  return {
+    raw: lines.slice(start + 1).join('\n'),
+    startLine: start + 1,
+    endLine: null,
+    contentStartLine: start + 2,
+  };
+}
+
+function scalarToString(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString().split('T')[0];
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    const text = String(value).trim();
+    return text.length > 0 ? text : null;
+  }
+  return null;
+}
+
+// 解析文档开头的 YAML front matter
+export function parseFrontMatter(markdown: string): FrontMatterResult {
+  const data = createEmptyFrontMatter();
+  const errors: FrontMatterError[] = [];
+  const block = locateFrontMatter(markdown);
+
+  if (!block) {
+    return { block: null, data, errors };
+  }
+
+  if (block.endLine === null) {
+    errors.push({ message: 'front matter 缺少结束分隔线 ---', line: block.startLine });
+  }
+
+  if (!block.raw.trim()) {
+    return { block, data, errors };
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(block.raw, { lineCounter });
+  const toDocLine = (offset: number | undefined): number => {
+    if (offset === undefined) {
+      return block.contentStartLine;
+    }
+    return block.contentStartLine + lineCounter.linePos(offset).line - 1;
+  };
+  const nodeLine = (node: unknown): number =>
+    toDocLine((node as { range?: [number, number, number] } | null)?.range?.[0]);
+
+  [...doc.errors, ...doc.warnings].forEach(error => {
+    const pos = error.linePos?.[0];
+    errors.push({
+      // 去掉 yaml 自带的相对行号，统一使用文档行号
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      line: pos ? block.contentStartLine + pos.line - 1 : block.contentStartLine,
+      column: pos?.col,
+    });
+  });
+
+  if (doc.errors.length > 0) {
+    return { block, data, errors };
+  }
+
+  const root = doc.contents;
+  if (!root) {
+    return { block, data, errors };
+  }
+  if (!isMap(root)) {
+    errors.push({ message: 'front matter 顶层必须是键值映射', line: nodeLine(root) });
+    return { block, data, errors };
+  }
+
+  const toStringList = (node: unknown, key: string): string[] => {
+    if (isSeq(node)) {
+      const result: string[] = [];
+      node.items.forEach(item => {
+        const text = isScalar(item) ? scalarToString(item.value) : null;
+        if (text) {
+          result.push(text);
+        } else {
+          errors.push({ message: `${key} 的列表项必须是字符串`, line: nodeLine(item) });
+        }
+      });
+      return result;
+    }
+    if (isScalar(node)) {
+      const text = scalarToString(node.value);
+      // 允许逗号分隔的单行写法
+      return text
+        ? text
+            .split(/[,，]/)
+            .map(part => part.trim())
+            .filter(Boolean)
+        : [];
+    }
+    errors.push({ message: `${key} 必须是字符串或字符串列表`, line: nodeLine(node) });
+    return [];
+  };
+
+  const toChangelog = (node: unknown): ChangelogEntry[] => {
+    const entries: ChangelogEntry[] = [];
+    const pushPair = (keyNode: unknown, valueNode: unknown, line: number) => {
+      const version = isScalar(keyNode) ? scalarToString(keyNode.value) : null;
+      const description = isScalar(valueNode) ? (scalarToString(valueNode.value) ?? '') : null;
+      if (!version || description === null) {
+        errors.push({ message: 'changelog 条目应为 "版本: 描述" 格式', line });
+        return;
+      }
+      entries.push({ version, description, line });
+    };
+
+    if (isMap(node)) {
+      node.items.forEach(pair => pushPair(pair.key, pair.value, nodeLine(pair.key)));
+      return entries;
+    }
+    if (!isSeq(node)) {
+      errors.push({ message: 'changelog 必须是列表', line: nodeLine(node) });
+      return entries;
+    }
+
+    node.items.forEach(item => {
+      const line = nodeLine(item);
+      if (isScalar(item)) {
+        // "v0.1.0: init" 被引号包裹时会成为普通字符串
+        const text = scalarToString(item.value) ?? '';
+        const match = text.match(/^([^:：]+)[:：]\s*(.*)$/);
+        if (match) {
+          entries.push({ version: match[1].trim(), description: match[2].trim(), line });
+        } else {
+          errors.push({ message: 'changelog 条目应为 "版本: 描述" 格式', line });
+        }
+        return;
+      }
+      if (!isMap(item)) {
+        errors.push({ message: 'changelog 条目格式无法识别', line });
+        return;
+      }
+
+      const record = item.toJSON() as Record<string, unknown>;
+      if ('version' in record) {
+        const version = scalarToString(record.version);
+        if (!version) {
+          errors.push({ message: 'changelog 条目缺少 version', line });
+          return;
+        }
+        entries.push({
+          version,
+          description: scalarToString(record.description ?? record.changes ?? record.note) ?? '',
+          date: scalarToString(record.date) ?? undefined,
+          line,
+        });
+        return;
+      }
+
+      if (item.items.length !== 1) {
+        errors.push({ message: 'changelog 条目应只包含一个 "版本: 描述" 键值对', line });
+        return;
+      }
+      const pair = item.items[0];
+      if (isPair(pair)) {
+        pushPair(pair.key, pair.value, line);
+      }
+    });
+    return entries;
+  };
+
+  root.items.forEach(pair => {
+    const rawKey = isScalar(pair.key) ? scalarToString(pair.key.value) : null;
+    if (!rawKey) {
+      errors.push({ message: 'front matter 的键必须是字符串', line: nodeLine(pair.key) });
+      return;
+    }
+
+    // 只查找自身属性，constructor、toString 等键按未知键保留在 extra 中
+    const field = Object.hasOwn(KEY_ALIASES, rawKey) ? KEY_ALIASES[rawKey] : null;
+    const valueNode = pair.value as Node | null;
+    if (!field) {
+      data.extra[rawKey] = valueNode && 'toJSON' in valueNode ? valueNode.toJSON() : valueNode;
+      return;
+    }
+    if (valueNode === null || (isScalar(valueNode) && valueNode.value === null)) {
+      return;
+    }
+
+    switch (field) {
+      case 'changelog':
+        data.changelog = toChangelog(valueNode);
+        break;
+      case 'tags':
+        data.tags = toStringList(valueNode, rawKey);
+        break;
+      case 'owners':
+        data.owners = toStringList(valueNode, rawKey);
+        break;
+      case 'severity':
+      case 'templateVersion':
+      case 'schema': {
+        const text = isScalar(valueNode) ? scalarToString(valueNode.value) : null;
+        if (text === null) {
+          errors.push({ message: `${rawKey} 必须是字符串`, line: nodeLine(valueNode) });
+        } else {
+          data[field] = text;
+        }
+        break;
+      }
+      case 'completion': {
+        const result = normalizeCompletionScoring(valueNode.toJSON());
+        if (result.ok && result.data) {
+          data.completion = result.data;
+        } else {
+          errors.push({ message: result.error ?? '完成度规则无效', line: nodeLine(valueNode) });
+        }
+        break;
+      }
+    }
+  });
+
+  return { block, data, errors };
+}
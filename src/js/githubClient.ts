@@ -34,6 +34,7 @@ export type GistReadParams = {
   token: string;
   gistId: string;
   filename?: string;
+  revision?: string; // 读取指定版本，未指定时读取最新版本
   fetcher?: Fetcher;
 };
 
@@ -54,9 +55,24 @@ export type RepoReadParams = {
   repo: string;
   branch: string;
   path: string;
+  ref?: string; // 读取指定提交，未指定时读取分支最新内容
   fetcher?: Fetcher;
 };
 
+// 远程文件的一个历史版本（仓库提交或 Gist 修订）
+export type RemoteRevision = {
+  sha: string;
+  date: string; // ISO 时间
+  message: string;
+};
+
+export type RevisionListParams<T> = Omit<T, 'fetcher'> & {
+  limit?: number;
+  fetcher?: Fetcher;
+};
+
+const DEFAULT_REVISION_LIMIT = 20;
+
 type RepoContentResponse = {
   sha: string;
   content: string;
@@ -96,9 +112,10 @@ export async function saveToGist(
 }
 
 export async function readFromGist(params: GistReadParams): Promise<GithubResult<string>> {
-  const { token, gistId, filename, fetcher = fetch } = params;
+  const { token, gistId, filename, revision, fetcher = fetch } = params;
+  const url = revision ? `${API_BASE}/gists/${gistId}/${revision}` : `${API_BASE}/gists/${gistId}`;
   try {
-    const res = await fetcher(`${API_BASE}/gists/${gistId}`, { headers: headers(token) });
+    const res = await fetcher(url, { headers: headers(token) });
     const json = await res.json().catch(() => ({}));
     if (!res.ok) {
       return { ok: false, status: res.status, error: formatGithubError(res.status, json) };
@@ -147,8 +164,8 @@ export async function saveToRepo(params: RepoSaveParams): Promise<GithubResult<{
 }
 
 export async function readFromRepo(params: RepoReadParams): Promise<GithubResult<string>> {
-  const { token, owner, repo, branch, path, fetcher = fetch } = params;
-  const url = `${API_BASE}/repos/${owner}/${repo}/contents/${encodeURIComponentPath(path)}?ref=${encodeURIComponent(branch)}`;
+  const { token, owner, repo, branch, path, ref, fetcher = fetch } = params;
+  const url = `${API_BASE}/repos/${owner}/${repo}/contents/${encodeURIComponentPath(path)}?ref=${encodeURIComponent(ref ?? branch)}`;
   try {
     const res = await fetcher(url, { headers: headers(token) });
     const json = await res.json().catch(() => ({}));
@@ -166,6 +183,70 @@ export async function readFromRepo(params: RepoReadParams): Promise<GithubResult
   }
 }
 
+// 列出修改过该文件的提交（最新在前）
+export async function listRepoCommits(
+  params: RevisionListParams<RepoReadParams>
+): Promise<GithubResult<RemoteRevision[]>> {
+  const {
+    token,
+    owner,
+    repo,
+    branch,
+    path,
+    limit = DEFAULT_REVISION_LIMIT,
+    fetcher = fetch,
+  } = params;
+  const query = `sha=${encodeURIComponent(branch)}&path=${encodeURIComponent(path)}&per_page=${limit}`;
+  const url = `${API_BASE}/repos/${owner}/${repo}/commits?${query}`;
+  try {
+    const res = await fetcher(url, { headers: headers(token) });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      return { ok: false, status: res.status, error: formatGithubError(res.status, json) };
+    }
+    if (!Array.isArray(json)) {
+      return { ok: false, error: 'Unexpected commits response.' };
+    }
+    const revisions = json.map(
+      (item: { sha: string; commit?: { message?: string; committer?: { date?: string } } }) => ({
+        sha: item.sha,
+        date: item.commit?.committer?.date ?? '',
+        message: (item.commit?.message ?? '').split('\n')[0],
+      })
+    );
+    return { ok: true, data: revisions.filter(item => item.date) };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
+// 列出 Gist 的修订历史（最新在前）
+export async function listGistRevisions(
+  params: RevisionListParams<GistReadParams>
+): Promise<GithubResult<RemoteRevision[]>> {
+  const { token, gistId, limit = DEFAULT_REVISION_LIMIT, fetcher = fetch } = params;
+  try {
+    const res = await fetcher(`${API_BASE}/gists/${gistId}`, { headers: headers(token) });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      return { ok: false, status: res.status, error: formatGithubError(res.status, json) };
+    }
+    if (!Array.isArray(json.history)) {
+      return { ok: false, error: 'No history found in gist.' };
+    }
+    const revisions = json.history
+      .slice(0, limit)
+      .map((item: { version: string; committed_at?: string }) => ({
+        sha: item.version,
+        date: item.committed_at ?? '',
+        message: '',
+      }));
+    return { ok: true, data: revisions.filter((item: RemoteRevision) => item.date) };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
 async function getRepoFileSha(
   params: Omit<RepoReadParams, 'fetcher'> & { fetcher?: Fetcher }
 ): Promise<GithubResult<string | null>> {
@@ -0,0 +1,319 @@
+import { isPlaceholderValue } from './fieldTypes.js';
+import { parseDate } from './parser.js';
+import type { ReportDocument, ReportStage, ReportSubsection } from './reportDocument.js';
+
+// 情报时间线（默认为 "7.1 情报时间线" 子章节）：按时间记录漏洞在各渠道中被观测到的情况
+//
+// 支持两种写法：
+// - 表格：表头包含 时间/日期、来源、链接、说明（英文 Date、Source、Link、Note 亦可），列顺序不限
+// - 列表：以日期开头的列表项，如
+//   "- 2024-02-16 GitHub：修复提交公开 https://github.com/..."
+//   "- 2024-02-16 | NVD | https://nvd.nist.gov/... | 收录 CVE"
+
+export type IntelligenceSourceType = 'github' | 'twitter' | 'nvd' | 'mailing-list' | 'other';
+
+export interface IntelligenceEntry {
+  date: string; // 原始日期文本
+  timestamp: number | null; // 无法解析时为 null
+  source: string; // 来源名称，未填写时使用识别出的类型名称
+  sourceType: IntelligenceSourceType;
+  url: string | null;
+  note: string;
+  line: number; // 1-based 行号
+}
+
+// 阶段元数据中的日期字段
+export interface IntelligenceDateField {
+  value: string;
+  timestamp: number | null;
+  line: number;
+}
+
+// ok：与时间线最早条目一致；later：晚于最早条目；earlier：早于最早条目（时间线中缺少依据）
+// missing：未填写或无法比较
+export type EarliestCaptureStatus = 'ok' | 'later' | 'earlier' | 'missing';
+
+export interface CaptureComparison {
+  firstObservable: IntelligenceEntry | null; // 时间线中最早的条目
+  earliestCapture: IntelligenceDateField | null; // "最早可捕获时间" 字段
+  captured: IntelligenceDateField | null; // "捕获时间" 字段
+  earliestStatus: EarliestCaptureStatus;
+  earliestOffsetDays: number | null; // 最早可捕获时间 - 最早条目
+  captureLagDays: number | null; // 捕获时间 - 最早条目
+}
+
+export interface IntelligenceTimeline {
+  stage: ReportStage;
+  subsection: ReportSubsection | null; // 未找到时间线子章节时为 null
+  entries: IntelligenceEntry[]; // 按时间排序，无法解析日期的条目在最后
+  outOfOrder: boolean; // 源码中的条目未按时间顺序书写
+  comparison: CaptureComparison;
+}
+
+export const INTELLIGENCE_SOURCE_LABELS: Record<IntelligenceSourceType, string> = {
+  github: 'GitHub',
+  twitter: 'Twitter/X',
+  nvd: 'NVD',
+  'mailing-list': '邮件列表',
+  other: '其他',
+};
+
+// 来源识别：先匹配来源名称，再匹配链接域名
+const SOURCE_PATTERNS: Array<{
+  type: IntelligenceSourceType;
+  name: RegExp;
+  host: RegExp;
+}> = [
+  { type: 'github', name: /github/i, host: /(^|\.)github\.(com|io)$|githubusercontent\.com$/i },
+  { type: 'twitter', name: /twitter|推特|^x$/i, host: /(^|\.)(twitter|x)\.com$/i },
+  { type: 'nvd', name: /\bnvd\b/i, host: /(^|\.)nvd\.nist\.gov$/i },
+  {
+    type: 'mailing-list',
+    name: /邮件列表|mailing\s*list|oss-security|openwall|seclists|full-disclosure/i,
+    host: /(^|\.)(openwall\.com|seclists\.org|marc\.info)$|^(lists|lore|groups)\./i,
+  },
+];
+
+const TIMELINE_TITLE_REGEX = /情报时间线|时间线|timeline/i;
+const EARLIEST_CAPTURE_LABELS = ['最早可捕获时间', 'Earliest Capture Time'];
+const CAPTURE_LABELS = ['捕获时间', 'Capture Time'];
+
+const DATE_PREFIX_REGEX =
+  /^(\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{8})(?:[ T](\d{1,2}:\d{2}(?::\d{2})?))?(?![\d:])/;
+const LIST_ITEM_REGEX = /^\s{0,3}[-*+]\s+(.*)$/;
+const MARKDOWN_LINK_REGEX = /\[([^\]]*)\]\(\s*<?([^)\s>]+)>?[^)]*\)/;
+const BARE_URL_REGEX = /https?:\/\/[^\s<>)|｜]+/;
+const SOURCE_PREFIX_REGEX = /^([^：:/[\]()|｜]{1,40}?)\s*[：:](?!\/\/)\s*(.*)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COLUMN_PATTERNS = {
+  date: /时间|日期|date|time/i,
+  source: /来源|渠道|source|channel/i,
+  url: /链接|地址|link|url/i,
+  note: /说明|备注|描述|内容|note|description|detail/i,
+};
+
+function classifySource(source: string, url: string | null): IntelligenceSourceType {
+  const byName = SOURCE_PATTERNS.find(pattern => pattern.name.test(source.trim()));
+  if (byName) {
+    return byName.type;
+  }
+  if (url) {
+    try {
+      const host = new URL(url).hostname;
+      const byHost = SOURCE_PATTERNS.find(pattern => pattern.host.test(host));
+      if (byHost) {
+        return byHost.type;
+      }
+    } catch {
+      // 相对地址或无效链接：无法按域名识别
+    }
+  }
+  return 'other';
+}
+
+// 提取文本中的第一个链接，返回链接与去掉裸链接后的文本（Markdown 链接保留链接文字）
+function extractUrl(text: string): { url: string | null; text: string } {
+  const markdownLink = text.match(MARKDOWN_LINK_REGEX);
+  if (markdownLink) {
+    return { url: markdownLink[2], text: text.replace(markdownLink[0], markdownLink[1]).trim() };
+  }
+  const bareUrl = text.match(BARE_URL_REGEX);
+  if (bareUrl) {
+    return { url: bareUrl[0], text: text.replace(bareUrl[0], '').trim() };
+  }
+  return { url: null, text: text.trim() };
+}
+
+function stripEmphasis(text: string): string {
+  return text.replace(/\*\*([^*]+)\*\*/g, '$1').replace(/`([^`]+)`/g, '$1');
+}
+
+function createEntry(
+  date: string,
+  source: string,
+  url: string | null,
+  note: string,
+  line: number
+): IntelligenceEntry {
+  const sourceType = classifySource(source, url);
+  return {
+    date,
+    timestamp: parseDate(date.split(/[ T]/)[0]),
+    source: source.trim() || INTELLIGENCE_SOURCE_LABELS[sourceType],
+    sourceType,
+    url,
+    note: note.replace(/^[\s\-—–|｜,，;；]+|[\s\-—–|｜,，;；]+$/g, ''),
+    line,
+  };
+}
+
+// 解析列表项："<日期> <来源>：<说明>"，或以 | 分隔的 "<日期> | <来源> | <链接> | <说明>"
+function parseListItem(text: string, line: number): IntelligenceEntry | null {
+  const plain = stripEmphasis(text).trim();
+  const dateMatch = plain.match(DATE_PREFIX_REGEX);
+  if (!dateMatch) {
+    return null;
+  }
+  const date = dateMatch[0];
+  const rest = plain
+    .slice(date.length)
+    .replace(/^[\s\-—–|｜:：]+/, '')
+    .trim();
+
+  if (/[|｜]/.test(rest)) {
+    const parts = rest.split(/\s*[|｜]\s*/);
+    const source = parts.shift() ?? '';
+    const { url, text: note } = extractUrl(parts.join(' '));
+    return createEntry(date, source, url, note, line);
+  }
+
+  const { url, text: remaining } = extractUrl(rest);
+  const sourceMatch = remaining.match(SOURCE_PREFIX_REGEX);
+  if (sourceMatch) {
+    return createEntry(date, sourceMatch[1], url, sourceMatch[2], line);
+  }
+  // 未写来源：仅凭链接识别
+  return createEntry(date, '', url, remaining, line);
+}
+
+function parseTableEntries(stage: ReportStage, subsection: ReportSubsection): IntelligenceEntry[] {
+  const entries: IntelligenceEntry[] = [];
+  const { startLine, endLine } = subsection.sectionRange;
+
+  stage.tables
+    .filter(table => table.range.startLine > startLine && table.range.startLine <= endLine)
+    .forEach(table => {
+      const column = (pattern: RegExp) => table.header.findIndex(cell => pattern.test(cell));
+      const dateIndex = column(COLUMN_PATTERNS.date);
+      if (dateIndex < 0) {
+        return;
+      }
+      const sourceIndex = column(COLUMN_PATTERNS.source);
+      const urlIndex = column(COLUMN_PATTERNS.url);
+      const noteIndex = column(COLUMN_PATTERNS.note);
+      const cell = (cells: string[], index: number) =>
+        index >= 0 ? stripEmphasis(cells[index] ?? '').trim() : '';
+
+      table.rows.forEach(row => {
+        const date = cell(row.cells, dateIndex);
+        if (!date || isPlaceholderValue(date)) {
+          return;
+        }
+        const link = extractUrl(cell(row.cells, urlIndex));
+        const note = extractUrl(cell(row.cells, noteIndex));
+        entries.push(
+          createEntry(
+            date,
+            cell(row.cells, sourceIndex),
+            link.url ?? note.url,
+            note.text || link.text,
+            row.line
+          )
+        );
+      });
+    });
+
+  return entries;
+}
+
+function parseListEntries(
+  report: ReportDocument,
+  subsection: ReportSubsection
+): IntelligenceEntry[] {
+  const lines = report.source.split('\n');
+  const entries: IntelligenceEntry[] = [];
+  let inFence = false;
+
+  for (
+    let line = subsection.sectionRange.startLine + 1;
+    line <= subsection.sectionRange.endLine;
+    line++
+  ) {
+    const text = lines[line - 1] ?? '';
+    if (/^ {0,3}(`{3,}|~{3,})/.test(text)) {
+      inFence = !inFence;
+      continue;
+    }
+    const item = inFence ? null : text.match(LIST_ITEM_REGEX);
+    const entry = item ? parseListItem(item[1], line) : null;
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+function findDateField(stage: ReportStage, labels: string[]): IntelligenceDateField | null {
+  const field = stage.fields.find(item => labels.includes(item.label.trim()));
+  if (!field || isPlaceholderValue(field.value)) {
+    return null;
+  }
+  return { value: field.value, timestamp: parseDate(field.value), line: field.line };
+}
+
+function diffDays(to: number | null | undefined, from: number | null | undefined): number | null {
+  if (to === null || to === undefined || from === null || from === undefined) {
+    return null;
+  }
+  return Math.round((to - from) / DAY_MS);
+}
+
+function compareCapture(stage: ReportStage, entries: IntelligenceEntry[]): CaptureComparison {
+  const firstObservable = entries.find(entry => entry.timestamp !== null) ?? null;
+  const earliestCapture = findDateField(stage, EARLIEST_CAPTURE_LABELS);
+  const captured = findDateField(stage, CAPTURE_LABELS);
+  const earliestOffsetDays = diffDays(earliestCapture?.timestamp, firstObservable?.timestamp);
+
+  let earliestStatus: EarliestCaptureStatus = 'missing';
+  if (earliestOffsetDays !== null) {
+    if (earliestOffsetDays > 0) {
+      earliestStatus = 'later';
+    } else if (earliestOffsetDays < 0) {
+      earliestStatus = 'earlier';
+    } else {
+      earliestStatus = 'ok';
+    }
+  }
+
+  return {
+    firstObservable,
+    earliestCapture,
+    captured,
+    earliestStatus,
+    earliestOffsetDays,
+    captureLagDays: diffDays(captured?.timestamp, firstObservable?.timestamp),
+  };
+}
+
+// 解析情报阶段中的时间线；报告中没有情报阶段时返回 null
+export function parseIntelligenceTimeline(report: ReportDocument): IntelligenceTimeline | null {
+  const stage = report.stages.find(item => item.role === 'intelligence');
+  if (!stage) {
+    return null;
+  }
+
+  const subsection = stage.subsections.find(item => TIMELINE_TITLE_REGEX.test(item.title)) ?? null;
+  const parsed = subsection
+    ? [...parseTableEntries(stage, subsection), ...parseListEntries(report, subsection)].sort(
+        (a, b) => a.line - b.line
+      )
+    : [];
+
+  const dated = parsed.filter(entry => entry.timestamp !== null);
+  const outOfOrder = dated.some(
+    (entry, index) => index > 0 && (entry.timestamp ?? 0) < (dated[index - 1].timestamp ?? 0)
+  );
+  // 稳定排序：同一天的条目保持书写顺序
+  const entries = [...dated]
+    .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0))
+    .concat(parsed.filter(entry => entry.timestamp === null));
+
+  return {
+    stage,
+    subsection,
+    entries,
+    outOfOrder,
+    comparison: compareCapture(stage, entries),
+  };
+}
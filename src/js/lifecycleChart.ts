@@ -0,0 +1,295 @@
+import { extractTimeInfo } from './chronology.js';
+import { computeLifecycleMetrics, type MetricId } from './metrics.js';
+import type { ReportDocument } from './reportDocument.js';
+import { escapeHtml } from './renderer.js';
+
+// 图表中的一个日期事件（阶段中的一个时间字段）
+export interface ChartEvent {
+  stageNum: number;
+  stageTitle: string;
+  stageLine: number; // 阶段标题所在行，点击事件时跳转
+  label: string;
+  value: string;
+  timestamp: number;
+}
+
+// 区间条：潜伏期、暴露窗口
+export interface ChartInterval {
+  id: MetricId;
+  name: string;
+  from: number;
+  to: number;
+  days: number;
+}
+
+export interface ChartLane {
+  stageNum: number;
+  title: string;
+  gradient: string; // schema 中的阶段渐变（对应 --gradient-stage-N）
+}
+
+export interface LifecycleChartData {
+  events: ChartEvent[];
+  intervals: ChartInterval[];
+  lanes: ChartLane[];
+  extent: ChartDomain | null; // 所有日期的范围（含留白），没有日期时为 null
+}
+
+// 当前显示的时间范围
+export interface ChartDomain {
+  start: number;
+  end: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVAL_IDS: MetricId[] = ['latent-period', 'exposure-window'];
+
+// SVG 坐标系（宽度固定，按容器等比缩放）
+const VIEW_WIDTH = 1000;
+const PLOT_LEFT = 130;
+const PLOT_RIGHT = 20;
+const PLOT_WIDTH = VIEW_WIDTH - PLOT_LEFT - PLOT_RIGHT;
+const INTERVAL_ROW_HEIGHT = 26;
+const LANE_HEIGHT = 40;
+const AXIS_HEIGHT = 32;
+const MAX_TICKS = 8;
+const MIN_SPAN = DAY_MS; // 最多放大到一天
+
+// 收集各阶段的日期事件与区间，阶段按编号排列为泳道
+export function buildLifecycleChartData(report: ReportDocument): LifecycleChartData {
+  const events: ChartEvent[] = [];
+  const lanes: ChartLane[] = [];
+
+  report.stages.forEach(stage => {
+    if (stage.stageNum === null) return;
+    const stageNum = stage.stageNum;
+    const dated = extractTimeInfo(stage).filter(info => info.timestamp !== null);
+    dated.forEach(info => {
+      events.push({
+        stageNum,
+        stageTitle: stage.title,
+        stageLine: stage.startLine,
+        label: info.label,
+        value: info.value,
+        timestamp: info.timestamp ?? 0,
+      });
+    });
+    // 重复的阶段共用一条泳道
+    if (dated.length > 0 && !lanes.some(lane => lane.stageNum === stageNum)) {
+      const definition = report.schema.stages.find(item => item.number === stageNum);
+      lanes.push({ stageNum, title: stage.title, gradient: definition?.gradient ?? '' });
+    }
+  });
+  lanes.sort((a, b) => a.stageNum - b.stageNum);
+
+  const intervals: ChartInterval[] = [];
+  computeLifecycleMetrics(report).forEach(metric => {
+    if (!INTERVAL_IDS.includes(metric.id) || metric.status !== 'ok') return;
+    if (metric.from.timestamp === null || metric.to.timestamp === null || metric.days === null) {
+      return;
+    }
+    intervals.push({
+      id: metric.id,
+      name: metric.name,
+      from: metric.from.timestamp,
+      to: metric.to.timestamp,
+      days: metric.days,
+    });
+  });
+
+  const timestamps = [
+    ...events.map(event => event.timestamp),
+    ...intervals.flatMap(interval => [interval.from, interval.to]),
+  ];
+  let extent: ChartDomain | null = null;
+  if (timestamps.length > 0) {
+    const min = Math.min(...timestamps);
+    const max = Math.max(...timestamps);
+    // 两侧各留 5% 的空白，只有一个日期时前后各留半个月
+    const padding = max > min ? Math.max((max - min) * 0.05, DAY_MS) : 15 * DAY_MS;
+    extent = { start: min - padding, end: max + padding };
+  }
+
+  return { events, intervals, lanes, extent };
+}
+
+// 以 anchor（0~1，在绘图区中的相对位置）为中心缩放；factor < 1 为放大
+export function zoomDomain(domain: ChartDomain, factor: number, anchor: number = 0.5): ChartDomain {
+  const span = domain.end - domain.start;
+  const nextSpan = Math.max(span * factor, MIN_SPAN);
+  const center = domain.start + span * anchor;
+  return { start: center - nextSpan * anchor, end: center + nextSpan * (1 - anchor) };
+}
+
+// 平移 ratio 个绘图区宽度（正数向右查看更晚的日期）
+export function panDomain(domain: ChartDomain, ratio: number): ChartDomain {
+  const offset = (domain.end - domain.start) * ratio;
+  return { start: domain.start + offset, end: domain.end + offset };
+}
+
+// 将屏幕横坐标换算为绘图区中的相对位置
+export function chartPositionRatio(rect: DOMRect, clientX: number): number {
+  const x = ((clientX - rect.left) / rect.width) * VIEW_WIDTH;
+  return Math.min(Math.max((x - PLOT_LEFT) / PLOT_WIDTH, 0), 1);
+}
+
+// 屏幕上的像素距离换算为绘图区宽度的比例
+export function chartWidthRatio(rect: DOMRect, pixels: number): number {
+  return (pixels / rect.width) * (VIEW_WIDTH / PLOT_WIDTH);
+}
+
+type TickUnit = 'day' | 'month' | 'year';
+
+const TICK_STEPS: Array<{ unit: TickUnit; count: number }> = [
+  { unit: 'day', count: 1 },
+  { unit: 'day', count: 2 },
+  { unit: 'day', count: 7 },
+  { unit: 'day', count: 14 },
+  { unit: 'month', count: 1 },
+  { unit: 'month', count: 3 },
+  { unit: 'month', count: 6 },
+  { unit: 'year', count: 1 },
+  { unit: 'year', count: 2 },
+  { unit: 'year', count: 5 },
+  { unit: 'year', count: 10 },
+  { unit: 'year', count: 50 },
+];
+
+const UNIT_MS: Record<TickUnit, number> = {
+  day: DAY_MS,
+  month: 30.44 * DAY_MS,
+  year: 365.25 * DAY_MS,
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// 按时间跨度选择刻度间隔，并对齐到自然的日、月、年
+function buildTicks(domain: ChartDomain): Array<{ timestamp: number; label: string }> {
+  const span = domain.end - domain.start;
+  const step =
+    TICK_STEPS.find(item => span / (UNIT_MS[item.unit] * item.count) <= MAX_TICKS) ??
+    TICK_STEPS[TICK_STEPS.length - 1];
+  const first = new Date(domain.start);
+  let cursor: Date;
+  if (step.unit === 'day') {
+    cursor = new Date(first.getFullYear(), first.getMonth(), first.getDate());
+  } else if (step.unit === 'month') {
+    const month = Math.floor(first.getMonth() / step.count) * step.count;
+    cursor = new Date(first.getFullYear(), month, 1);
+  } else {
+    cursor = new Date(Math.floor(first.getFullYear() / step.count) * step.count, 0, 1);
+  }
+
+  const ticks: Array<{ timestamp: number; label: string }> = [];
+  while (cursor.getTime() <= domain.end && ticks.length < MAX_TICKS * 3) {
+    if (cursor.getTime() >= domain.start) {
+      let label: string;
+      if (step.unit === 'day') {
+        label = `${pad(cursor.getMonth() + 1)}-${pad(cursor.getDate())}`;
+        if (ticks.length === 0 || (cursor.getMonth() === 0 && cursor.getDate() <= step.count)) {
+          label = `${cursor.getFullYear()}-${label}`;
+        }
+      } else if (step.unit === 'month') {
+        label = `${cursor.getFullYear()}-${pad(cursor.getMonth() + 1)}`;
+      } else {
+        label = String(cursor.getFullYear());
+      }
+      ticks.push({ timestamp: cursor.getTime(), label });
+    }
+    if (step.unit === 'day') {
+      cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + step.count);
+    } else if (step.unit === 'month') {
+      cursor = new Date(cursor.getFullYear(), cursor.getMonth() + step.count, 1);
+    } else {
+      cursor = new Date(cursor.getFullYear() + step.count, 0, 1);
+    }
+  }
+  return ticks;
+}
+
+function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// 将 CSS 渐变中的颜色转换为 SVG 渐变（id 为 chart-stage-gradient-N）
+export function renderGradientDef(lane: ChartLane): string {
+  const colors = lane.gradient.match(/#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|hsla?\([^)]*\)/gi) ?? [];
+  const stops = colors.length > 0 ? colors : [`var(--border-color-stage-${lane.stageNum})`];
+  const last = Math.max(stops.length - 1, 1);
+  const stopHtml = stops
+    .map(
+      (color, index) =>
+        `<stop offset="${Math.round((index / last) * 100)}%" style="stop-color: ${escapeHtml(color)}"/>`
+    )
+    .join('');
+  return `<linearGradient id="chart-stage-gradient-${lane.stageNum}" x1="0" y1="0" x2="1" y2="1">${stopHtml}</linearGradient>`;
+}
+
+// 生成按比例绘制的生命周期 SVG：顶部为区间条，每个阶段一条泳道，底部为时间轴
+export function renderLifecycleChartSvg(data: LifecycleChartData, domain: ChartDomain): string {
+  const span = Math.max(domain.end - domain.start, 1);
+  const xOf = (timestamp: number) =>
+    Math.round((PLOT_LEFT + ((timestamp - domain.start) / span) * PLOT_WIDTH) * 10) / 10;
+  const lanesTop = data.intervals.length * INTERVAL_ROW_HEIGHT + 8;
+  const axisTop = lanesTop + data.lanes.length * LANE_HEIGHT;
+  const height = axisTop + AXIS_HEIGHT;
+
+  let svg = `<svg class="chart-svg" viewBox="0 0 ${VIEW_WIDTH} ${height}" width="100%" preserveAspectRatio="xMinYMin meet" xmlns="http://www.w3.org/2000/svg">`;
+  svg += '<defs>';
+  svg += `<clipPath id="chart-plot-clip"><rect x="${PLOT_LEFT}" y="0" width="${PLOT_WIDTH}" height="${height}"/></clipPath>`;
+  data.lanes.forEach(lane => {
+    svg += renderGradientDef(lane);
+  });
+  svg += '</defs>';
+
+  // 刻度与网格线
+  buildTicks(domain).forEach(tick => {
+    const x = xOf(tick.timestamp);
+    svg += `<line class="chart-grid" x1="${x}" y1="0" x2="${x}" y2="${axisTop}"/>`;
+    svg += `<text class="chart-tick-label" x="${x}" y="${axisTop + 20}" text-anchor="middle">${escapeHtml(tick.label)}</text>`;
+  });
+  svg += `<line class="chart-axis" x1="${PLOT_LEFT}" y1="${axisTop}" x2="${PLOT_LEFT + PLOT_WIDTH}" y2="${axisTop}"/>`;
+
+  // 泳道标签
+  data.lanes.forEach((lane, index) => {
+    const y = lanesTop + index * LANE_HEIGHT;
+    svg += `<rect class="chart-lane" x="0" y="${y}" width="${VIEW_WIDTH}" height="${LANE_HEIGHT}" data-index="${index}"/>`;
+    svg += `<circle cx="12" cy="${y + LANE_HEIGHT / 2}" r="5" fill="url(#chart-stage-gradient-${lane.stageNum})"/>`;
+    svg += `<text class="chart-lane-label" x="22" y="${y + LANE_HEIGHT / 2 + 4}">${escapeHtml(lane.title)}</text>`;
+  });
+
+  svg += '<g clip-path="url(#chart-plot-clip)">';
+
+  // 区间条
+  data.intervals.forEach((interval, index) => {
+    const y = index * INTERVAL_ROW_HEIGHT + 4;
+    const x1 = xOf(Math.min(interval.from, interval.to));
+    const x2 = xOf(Math.max(interval.from, interval.to));
+    const width = Math.max(x2 - x1, 2);
+    const text = `${interval.name} ${interval.days} 天`;
+    svg += `<g class="chart-interval" data-interval="${interval.id}">`;
+    svg += `<title>${escapeHtml(`${interval.name}：${formatDay(interval.from)} → ${formatDay(interval.to)}（${interval.days} 天）`)}</title>`;
+    svg += `<rect x="${x1}" y="${y}" width="${width}" height="${INTERVAL_ROW_HEIGHT - 8}" rx="4"/>`;
+    svg += `<text x="${Math.max(x1, PLOT_LEFT) + 6}" y="${y + INTERVAL_ROW_HEIGHT / 2 + 1}">${escapeHtml(text)}</text>`;
+    svg += '</g>';
+  });
+
+  // 事件
+  data.events.forEach(event => {
+    const laneIndex = data.lanes.findIndex(lane => lane.stageNum === event.stageNum);
+    const x = xOf(event.timestamp);
+    const y = lanesTop + laneIndex * LANE_HEIGHT + LANE_HEIGHT / 2;
+    svg += `<g class="chart-event" data-line="${event.stageLine}" data-stage="${event.stageNum}">`;
+    svg += `<title>${escapeHtml(`${event.stageTitle} · ${event.label}：${event.value}`)}</title>`;
+    svg += `<circle cx="${x}" cy="${y}" r="7" fill="url(#chart-stage-gradient-${event.stageNum})"/>`;
+    svg += `<text class="chart-event-label" x="${x + 10}" y="${y - 8}">${escapeHtml(event.label)}</text>`;
+    svg += '</g>';
+  });
+
+  svg += '</g>';
+  svg += '</svg>';
+  return svg;
+}
@@ -1,24 +1,39 @@
 import '../styles/main.css';
 import 'highlight.js/styles/github-dark.css';
 import '../types/version.d.ts';
-import { initEditor } from './editor.js';
+import { applyDiagnosticFix, initEditor, setReportDiagnostics } from './editor.js';
+import { collectReportDiagnostics, type ReportDiagnostic } from './diagnostics.js';
 import { logger } from './logger.js';
 import {
   renderLifecycleView,
   renderExploitabilityView,
   renderIntelligenceView,
   renderAnalysisView,
+  renderChartView,
+  renderMetricsView,
   renderCompletionView,
   updateLifecycleView,
+  applySchemaStyles,
+  setSanitizeMode,
+  type TimelineOrder,
 } from './renderer.js';
+import { initCvssCalculator } from './cvssCalculator.js';
+import { initTimelineExport } from './timelineExport.js';
+import { renderMermaidDiagrams, toggleMermaidSource } from './mermaidRenderer.js';
+import { setDiffBlockMode } from './diffView.js';
 import { storageManager, type HistoryEntry, type SaveStatus } from './storage.js';
 import {
+  listGistRevisions,
+  listRepoCommits,
   readFromGist,
   readFromRepo,
   saveToGist,
   saveToRepo,
   type GithubMode,
+  type GithubResult,
+  type RemoteRevision,
 } from './githubClient.js';
+import { toggleTrendStage, type CompletionSnapshot } from './completionTrend.js';
 import {
   applyTemplate,
   clearGithubToken,
@@ -26,19 +41,106 @@ import {
   saveGithubConfig,
   type GithubConfig,
 } from './githubConfig.js';
+import {
+  buildReportDocument,
+  updateReportDocument,
+  type ReportDocument,
+  type ReportUpdate,
+} from './reportDocument.js';
+import {
+  applySchemaConfig,
+  loadSchemaConfig,
+  saveSchemaConfig,
+  type SchemaConfig,
+} from './schemaConfig.js';
+import { getAvailableSchemas, parseLifecycleSchemas } from './schema.js';
+import {
+  applyScoringConfig,
+  loadScoringConfig,
+  saveScoringConfig,
+  type ScoringConfig,
+} from './scoringConfig.js';
+import { parseCompletionScoring } from './scoring.js';
+import {
+  buildSyncChange,
+  collectBasicInfoSync,
+  type BasicInfoSyncMapping,
+  type SyncDirection,
+} from './basicInfoSync.js';
+import { computeLifecycleMetrics, metricsToCsv, metricsToJson } from './metrics.js';
+import {
+  chartPositionRatio,
+  chartWidthRatio,
+  panDomain,
+  zoomDomain,
+  type ChartDomain,
+} from './lifecycleChart.js';
 import { EditorView } from '@codemirror/view';
+import type { ChangeSet } from '@codemirror/state';
 
 // 视图类型
-type ViewType = 'lifecycle' | 'exploitability' | 'intelligence' | 'analysis' | 'completion';
+type ViewType =
+  | 'lifecycle'
+  | 'exploitability'
+  | 'intelligence'
+  | 'analysis'
+  | 'chart'
+  | 'metrics'
+  | 'completion';
 
 // 当前视图类型
 let currentView: ViewType = 'lifecycle';
 
+// 最近一次渲染使用的报告结构，以及此后尚未渲染的编辑器改动
+let currentReport: ReportDocument | null = null;
+let pendingChanges: ChangeSet | null = null;
+
+// 问题面板：诊断结果及其对应的报告
+let problemsEditor: EditorView | null = null;
+let currentDiagnostics: ReportDiagnostic[] = [];
+let diagnosedReport: ReportDocument | null = null;
+
 // 时间轴显示状态
 let timelineVisible: boolean = false;
 
+// 时间轴排序方式
+let timelineOrder: TimelineOrder = 'document';
+
+// 时间图当前的时间范围（null 表示显示全部日期）
+let chartDomain: ChartDomain | null = null;
+
+// 完成度趋势中从 GitHub 加载的远程提交及加载状态
+let remoteSnapshots: CompletionSnapshot[] = [];
+let remoteSnapshotStatus: string | null = null;
+
 // LocalStorage 键名
 const TIMELINE_VISIBLE_KEY = 'vulncycleinsight_timeline_visible';
+const TIMELINE_ORDER_KEY = 'vulncycleinsight_timeline_order';
+const CONTENT_SOURCE_KEY = 'vulncycleinsight_content_source';
+
+// 当前内容的来源：从 Gist / 仓库拉取的报告按 strict 策略过滤其中的 HTML
+type ContentSource = 'local' | 'remote';
+
+function loadContentSource(): ContentSource {
+  return localStorage.getItem(CONTENT_SOURCE_KEY) === 'remote' ? 'remote' : 'local';
+}
+
+function setContentSource(source: ContentSource): void {
+  localStorage.setItem(CONTENT_SOURCE_KEY, source);
+  setSanitizeMode(source === 'remote' ? 'strict' : 'default');
+}
+
+// 完成度趋势使用的报告版本：本地历史版本与已加载的远程提交
+function getCompletionSnapshots(): CompletionSnapshot[] {
+  const history: CompletionSnapshot[] = storageManager.getHistoryEntries().map(entry => ({
+    id: entry.id,
+    timestamp: Date.parse(entry.timestamp),
+    source: 'history',
+    label: '',
+    content: entry.content,
+  }));
+  return [...history, ...remoteSnapshots];
+}
 
 // 加载时间轴显示状态
 function loadTimelineVisibility(): boolean {
@@ -54,6 +156,17 @@ function saveTimelineVisibility(visible: boolean): void {
   localStorage.setItem(TIMELINE_VISIBLE_KEY, visible.toString());
 }
 
+// 加载时间轴排序方式
+function loadTimelineOrder(): TimelineOrder {
+  const stored = localStorage.getItem(TIMELINE_ORDER_KEY);
+  return stored === 'chronological' ? 'chronological' : 'document'; // 默认按文档顺序
+}
+
+// 保存时间轴排序方式
+function saveTimelineOrder(order: TimelineOrder): void {
+  localStorage.setItem(TIMELINE_ORDER_KEY, order);
+}
+
 // 应用时间轴显示状态到DOM
 function applyTimelineVisibility(): void {
   const previewContent = document.getElementById('preview-content');
@@ -85,20 +198,31 @@ function updateTimelineToggleButton(): void {
   }
 }
 
-// 更新时间轴控制按钮的可见性（仅在生命周期视图显示）
-function updateTimelineToggleVisibility(): void {
-  const timelineToggleBtn = document.getElementById(
-    'timeline-toggle-btn'
+// 更新时间轴排序按钮的显示状态
+function updateTimelineOrderButton(): void {
+  const timelineOrderBtn = document.getElementById(
+    'timeline-order-btn'
   ) as HTMLButtonElement | null;
-  if (!timelineToggleBtn) return;
+  if (!timelineOrderBtn) return;
 
-  if (currentView === 'lifecycle') {
-    timelineToggleBtn.style.display = 'flex';
+  if (timelineOrder === 'chronological') {
+    timelineOrderBtn.classList.add('active');
+    timelineOrderBtn.title = '按文档顺序排列';
   } else {
-    timelineToggleBtn.style.display = 'none';
+    timelineOrderBtn.classList.remove('active');
+    timelineOrderBtn.title = '按时间先后排列';
   }
 }
 
+// 更新时间轴控制按钮的可见性（仅在生命周期视图显示）
+function updateTimelineToggleVisibility(): void {
+  ['timeline-toggle-btn', 'timeline-order-btn', 'timeline-export-btn'].forEach(id => {
+    const button = document.getElementById(id) as HTMLButtonElement | null;
+    if (!button) return;
+    button.style.display = currentView === 'lifecycle' ? 'flex' : 'none';
+  });
+}
+
 type LifecycleViewState = {
   expandedStageKeys: Set<string>;
   expandedSubsectionKeys: Set<string>;
@@ -191,29 +315,64 @@ function restoreLifecycleState(container: HTMLElement, state: LifecycleViewState
   container.scrollTop = state.scrollTop;
 }
 
+// 根据累积的编辑器改动增量解析报告，无法增量时整体解析
+function resolveReportUpdate(markdown: string): ReportUpdate {
+  const changes = pendingChanges;
+  pendingChanges = null;
+
+  let update: ReportUpdate;
+  if (currentReport && currentReport.source === markdown) {
+    update = { report: currentReport, changedStages: [] };
+  } else if (currentReport && changes && changes.length === currentReport.source.length) {
+    update = updateReportDocument(currentReport, markdown, changes);
+  } else {
+    update = { report: buildReportDocument(markdown), changedStages: null };
+  }
+  currentReport = update.report;
+  return update;
+}
+
 // 渲染当前视图
-function renderCurrentView(markdown: string, container: HTMLElement): void {
+// forceFullRender 为 true 时跳过增量更新（如时间轴排序方式、HTML 过滤策略改变）
+function renderCurrentView(
+  markdown: string,
+  container: HTMLElement,
+  forceFullRender = false
+): void {
   const initialScrollTop = container.scrollTop;
   let lifecycleState: LifecycleViewState | null = null;
+  const reportUpdate = resolveReportUpdate(markdown);
+  applySchemaStyles(reportUpdate.report.schema);
+  updateDiagnostics(reportUpdate.report);
 
   if (currentView === 'lifecycle') {
-    const updateResult = updateLifecycleView(markdown, container);
+    const updateResult =
+      !forceFullRender &&
+      updateLifecycleView(markdown, container, reportUpdate, { order: timelineOrder });
     if (updateResult) {
+      void renderMermaidDiagrams(container);
       return;
     }
     lifecycleState = captureLifecycleState(container);
   }
 
   if (currentView === 'lifecycle') {
-    renderLifecycleView(markdown, container);
+    renderLifecycleView(markdown, container, { order: timelineOrder });
   } else if (currentView === 'exploitability') {
     renderExploitabilityView(markdown, container);
   } else if (currentView === 'intelligence') {
     renderIntelligenceView(markdown, container);
   } else if (currentView === 'analysis') {
     renderAnalysisView(markdown, container);
+  } else if (currentView === 'chart') {
+    renderChartView(markdown, container, { domain: chartDomain });
+  } else if (currentView === 'metrics') {
+    renderMetricsView(markdown, container);
   } else {
-    renderCompletionView(markdown, container);
+    renderCompletionView(markdown, container, {
+      snapshots: getCompletionSnapshots(),
+      remoteStatus: remoteSnapshotStatus,
+    });
   }
 
   if (currentView === 'lifecycle' && lifecycleState) {
@@ -226,6 +385,7 @@ function renderCurrentView(markdown: string, container: HTMLElement): void {
   if (currentView === 'lifecycle') {
     applyTimelineVisibility();
   }
+  void renderMermaidDiagrams(container);
 }
 
 // 初始化应用
@@ -244,6 +404,10 @@ function initApp(): void {
     return;
   }
 
+  // 加载生命周期 schema 设置（需在首次渲染前完成）
+  applySchemaConfig(loadSchemaConfig());
+  applyScoringConfig(loadScoringConfig());
+
   // 防抖函数
   let updateTimer: ReturnType<typeof setTimeout> | null = null;
   const debouncedUpdate = (markdown: string) => {
@@ -264,19 +428,39 @@ function initApp(): void {
 
   // 初始化编辑器（传入更新监听器和保存回调）
   const editor = initEditor(editorContainer, {
-    onUpdate: (view: EditorView) => {
+    onUpdate: (view: EditorView, changes: ChangeSet) => {
+      // 防抖期间的多次改动合并为一个 ChangeSet
+      pendingChanges = pendingChanges ? pendingChanges.compose(changes) : changes;
       const markdown = view.state.doc.toString();
       debouncedUpdate(markdown);
     },
     onSave: saveContent,
   });
 
+  // 初始化问题面板（需在首次渲染前完成）
+  initProblemsPanel(editor);
+
+  // 初始化时间轴排序（需在首次渲染之前读取保存的排序方式）
+  initTimelineOrderToggle(editor, previewContent);
+
+  // 恢复内容来源对应的 HTML 过滤策略（需在首次渲染之前）
+  setContentSource(loadContentSource());
+
   // 初始渲染
   renderCurrentView(editor.state.doc.toString(), previewContent);
 
   // 初始化折叠/展开功能（事件委托）
   initStageToggle(previewContent, editor);
 
+  // 初始化基本信息同步按钮
+  initBasicInfoSync(editor, previewContent);
+
+  // 初始化指标导出
+  initMetricsExport(editor, previewContent);
+
+  // 初始化时间图缩放与平移
+  initLifecycleChart(editor, previewContent);
+
   // 初始化视图切换功能
   initViewSwitcher(editor, previewContent);
 
@@ -289,9 +473,16 @@ function initApp(): void {
   // 初始化 GitHub 云端存储
   initGithubIntegration(editor, previewContent);
 
+  // 初始化生命周期 schema 设置
+  initSchemaSettings(editor, previewContent);
+  initScoringSettings(editor, previewContent);
+
   // 初始化历史版本功能
   initHistoryModal(editor, previewContent);
 
+  // 初始化 CVSS 计算器
+  initCvssCalculator(editor, previewContent);
+
   // 加载模板内容（或已保存的内容）
   loadTemplate(editor, previewContent);
 
@@ -300,6 +491,247 @@ function initApp(): void {
 
   // 初始化时间轴控制功能
   initTimelineToggle();
+
+  // 初始化时间轴图片导出
+  initTimelineExport(editor, () => timelineOrder);
+}
+
+// 诊断报告并同步到编辑器与问题面板（报告未变化时跳过）
+function updateDiagnostics(report: ReportDocument): void {
+  if (!problemsEditor || report === diagnosedReport) {
+    return;
+  }
+  // 诊断偏移基于报告源码，编辑器内容已变化时等待下一次渲染
+  if (problemsEditor.state.doc.length !== report.source.length) {
+    return;
+  }
+  diagnosedReport = report;
+  currentDiagnostics = collectReportDiagnostics(report);
+  setReportDiagnostics(problemsEditor, currentDiagnostics);
+  renderProblemsPanel();
+}
+
+const PROBLEM_ICONS: Record<ReportDiagnostic['severity'], string> = {
+  error: '✖',
+  warning: '⚠',
+  info: 'ℹ',
+};
+
+function renderProblemsPanel(): void {
+  const list = document.getElementById('problems-list');
+  const count = document.getElementById('problems-count');
+  if (!list || !count) return;
+
+  count.textContent = String(currentDiagnostics.length);
+  count.dataset.severity = currentDiagnostics.some(item => item.severity === 'error')
+    ? 'error'
+    : currentDiagnostics.some(item => item.severity === 'warning')
+      ? 'warning'
+      : 'none';
+
+  if (currentDiagnostics.length === 0) {
+    list.innerHTML = '<li class="problems-empty">未发现问题</li>';
+    return;
+  }
+
+  list.innerHTML = currentDiagnostics
+    .map((diagnostic, index) => {
+      const fixes = diagnostic.fixes
+        .map(
+          (fix, fixIndex) =>
+            `<button class="problem-fix-btn" type="button" data-fix-index="${fixIndex}">${escapeHtml(fix.label)}</button>`
+        )
+        .join('');
+      return `<li class="problem-item" data-severity="${diagnostic.severity}" data-problem-index="${index}">
+        <span class="problem-icon">${PROBLEM_ICONS[diagnostic.severity]}</span>
+        <span class="problem-message" title="${escapeHtml(diagnostic.message)}">${escapeHtml(diagnostic.message)}</span>
+        <span class="problem-line">第 ${diagnostic.line} 行</span>
+        ${fixes}
+      </li>`;
+    })
+    .join('');
+}
+
+// 初始化问题面板：点击问题跳转到对应位置，点击修复按钮应用快速修复
+function initProblemsPanel(editor: EditorView): void {
+  problemsEditor = editor;
+
+  const panel = document.getElementById('problems-panel');
+  const toggle = document.getElementById('problems-toggle');
+  const list = document.getElementById('problems-list');
+  if (!panel || !toggle || !list) {
+    logger.warn('Problems panel elements not found');
+    return;
+  }
+
+  toggle.addEventListener('click', () => {
+    panel.classList.toggle('collapsed');
+  });
+
+  list.addEventListener('click', event => {
+    const target = event.target as HTMLElement;
+    const item = target.closest<HTMLElement>('.problem-item');
+    const diagnostic = item ? currentDiagnostics[Number(item.dataset.problemIndex)] : undefined;
+    if (!diagnostic) return;
+
+    const fixButton = target.closest<HTMLElement>('.problem-fix-btn');
+    if (fixButton) {
+      const fix = diagnostic.fixes[Number(fixButton.dataset.fixIndex)];
+      // 诊断生成后内容已变化时，修复会按之后的编辑重新定位
+      if (fix) {
+        applyDiagnosticFix(editor, fix);
+      }
+      return;
+    }
+
+    const position = Math.min(diagnostic.from, editor.state.doc.length);
+    editor.dispatch({ selection: { anchor: position }, scrollIntoView: true });
+    editor.focus();
+  });
+}
+
+// 在基本信息表格与阶段元数据之间同步日期（作为一次编辑器事务，可撤销）
+function syncBasicInfoField(
+  editor: EditorView,
+  field: BasicInfoSyncMapping['field'],
+  direction: SyncDirection
+): boolean {
+  const markdown = editor.state.doc.toString();
+  const report =
+    currentReport && currentReport.source === markdown
+      ? currentReport
+      : buildReportDocument(markdown);
+  const item = collectBasicInfoSync(report).find(entry => entry.mapping.field === field);
+  const change = item ? buildSyncChange(report, item, direction) : null;
+  if (!change) {
+    showSaveNotification('没有可同步的日期', 'info');
+    return false;
+  }
+  editor.dispatch({ changes: change, userEvent: 'input.sync', scrollIntoView: true });
+  return true;
+}
+
+// 初始化基本信息同步按钮（事件委托）
+function initBasicInfoSync(editor: EditorView, previewContent: HTMLElement): void {
+  previewContent.addEventListener('click', event => {
+    const button = (event.target as HTMLElement | null)?.closest<HTMLButtonElement>(
+      '.stage-sync-btn'
+    );
+    if (!button) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const field = button.dataset.syncField as BasicInfoSyncMapping['field'] | undefined;
+    const direction = button.dataset.syncDirection as SyncDirection | undefined;
+    if (field && direction && syncBasicInfoField(editor, field, direction)) {
+      showSaveNotification('已同步');
+    }
+  });
+}
+
+// 导出生命周期指标（CSV / JSON）
+function initMetricsExport(editor: EditorView, previewContent: HTMLElement): void {
+  previewContent.addEventListener('click', event => {
+    const button = (event.target as HTMLElement | null)?.closest<HTMLButtonElement>(
+      '.metrics-export-btn'
+    );
+    if (!button) return;
+    event.preventDefault();
+
+    const markdown = editor.state.doc.toString();
+    const report =
+      currentReport && currentReport.source === markdown
+        ? currentReport
+        : buildReportDocument(markdown);
+    const metrics = computeLifecycleMetrics(report);
+    const basename = generateFilename().replace(/\.md$/, '_metrics');
+
+    if (button.dataset.format === 'json') {
+      const filename = `${basename}.json`;
+      storageManager.downloadText(metricsToJson(report, metrics), filename, 'application/json');
+      showSaveNotification(`已导出指标: ${filename}`);
+    } else {
+      const filename = `${basename}.csv`;
+      storageManager.downloadText(metricsToCsv(metrics), filename, 'text/csv');
+      showSaveNotification(`已导出指标: ${filename}`);
+    }
+  });
+}
+
+// 时间图的缩放与平移：修改时间范围后重新渲染
+function initLifecycleChart(editor: EditorView, previewContent: HTMLElement): void {
+  let pendingFrame: number | null = null;
+  let drag: { startX: number; domain: ChartDomain; rect: DOMRect } | null = null;
+
+  const hostDomain = (): ChartDomain | null => {
+    const host = previewContent.querySelector<HTMLElement>('.chart-host');
+    if (!host) return null;
+    return { start: Number(host.dataset.domainStart), end: Number(host.dataset.domainEnd) };
+  };
+
+  const setDomain = (domain: ChartDomain | null) => {
+    chartDomain = domain;
+    if (pendingFrame !== null) return;
+    pendingFrame = requestAnimationFrame(() => {
+      pendingFrame = null;
+      if (currentView === 'chart') {
+        renderCurrentView(editor.state.doc.toString(), previewContent);
+      }
+    });
+  };
+
+  previewContent.addEventListener('click', event => {
+    const button = (event.target as HTMLElement | null)?.closest<HTMLButtonElement>(
+      '.chart-action-btn'
+    );
+    const domain = hostDomain();
+    if (!button || !domain) return;
+
+    const action = button.dataset.chartAction;
+    if (action === 'zoom-in') {
+      setDomain(zoomDomain(domain, 0.5));
+    } else if (action === 'zoom-out') {
+      setDomain(zoomDomain(domain, 2));
+    } else {
+      setDomain(null);
+    }
+  });
+
+  previewContent.addEventListener(
+    'wheel',
+    event => {
+      const svg = (event.target as Element | null)?.closest('.chart-host')?.querySelector('svg');
+      const domain = hostDomain();
+      if (!svg || !domain) return;
+      event.preventDefault();
+      const anchor = chartPositionRatio(svg.getBoundingClientRect(), event.clientX);
+      setDomain(zoomDomain(domain, event.deltaY > 0 ? 1.2 : 1 / 1.2, anchor));
+    },
+    { passive: false }
+  );
+
+  previewContent.addEventListener('mousedown', event => {
+    const target = event.target as Element | null;
+    const svg = target?.closest('.chart-host')?.querySelector('svg');
+    const domain = hostDomain();
+    // 点击事件用于跳转，不触发拖动
+    if (!svg || !domain || event.button !== 0 || target?.closest('.chart-event')) return;
+    event.preventDefault();
+    drag = { startX: event.clientX, domain, rect: svg.getBoundingClientRect() };
+    previewContent.classList.add('chart-dragging');
+  });
+
+  window.addEventListener('mousemove', event => {
+    if (!drag) return;
+    const ratio = chartWidthRatio(drag.rect, event.clientX - drag.startX);
+    setDomain(panDomain(drag.domain, -ratio));
+  });
+
+  window.addEventListener('mouseup', () => {
+    if (!drag) return;
+    drag = null;
+    previewContent.classList.remove('chart-dragging');
+  });
 }
 
 // 初始化视图切换功能
@@ -308,9 +740,19 @@ function initViewSwitcher(editor: EditorView, previewContent: HTMLElement): void
   const exploitabilityBtn = document.getElementById('exploitability-view-btn');
   const intelligenceBtn = document.getElementById('intelligence-view-btn');
   const analysisBtn = document.getElementById('analysis-view-btn');
+  const chartBtn = document.getElementById('chart-view-btn');
+  const metricsBtn = document.getElementById('metrics-view-btn');
   const completionBtn = document.getElementById('completion-view-btn');
 
-  if (!lifecycleBtn || !exploitabilityBtn || !intelligenceBtn || !analysisBtn || !completionBtn) {
+  if (
+    !lifecycleBtn ||
+    !exploitabilityBtn ||
+    !intelligenceBtn ||
+    !analysisBtn ||
+    !chartBtn ||
+    !metricsBtn ||
+    !completionBtn
+  ) {
     logger.error('View switcher buttons not found');
     return;
   }
@@ -323,6 +765,8 @@ function initViewSwitcher(editor: EditorView, previewContent: HTMLElement): void
     exploitabilityBtn.classList.toggle('active', viewType === 'exploitability');
     intelligenceBtn.classList.toggle('active', viewType === 'intelligence');
     analysisBtn.classList.toggle('active', viewType === 'analysis');
+    chartBtn.classList.toggle('active', viewType === 'chart');
+    metricsBtn.classList.toggle('active', viewType === 'metrics');
     completionBtn.classList.toggle('active', viewType === 'completion');
 
     // 更新时间轴控制按钮的可见性
@@ -340,6 +784,8 @@ function initViewSwitcher(editor: EditorView, previewContent: HTMLElement): void
   exploitabilityBtn.addEventListener('click', () => switchView('exploitability'));
   intelligenceBtn.addEventListener('click', () => switchView('intelligence'));
   analysisBtn.addEventListener('click', () => switchView('analysis'));
+  chartBtn.addEventListener('click', () => switchView('chart'));
+  metricsBtn.addEventListener('click', () => switchView('metrics'));
   completionBtn.addEventListener('click', () => switchView('completion'));
 }
 
@@ -372,7 +818,8 @@ async function loadTemplate(editor: EditorView, previewContent: HTMLElement): Pr
     editor.dispatch({
       changes: { from: 0, to: editor.state.doc.length, insert: text },
     });
-    renderCurrentView(text, previewContent);
+    setContentSource('local');
+    renderCurrentView(text, previewContent, true);
     // 保存模板内容
     storageManager.saveToLocalStorage(text);
     updateSaveStatus(text);
@@ -421,7 +868,8 @@ async function handleTemplateReload(
     editor.dispatch({
       changes: { from: 0, to: editor.state.doc.length, insert: text },
     });
-    renderCurrentView(text, previewContent);
+    setContentSource('local');
+    renderCurrentView(text, previewContent, true);
     storageManager.manualSave(text);
     updateSaveStatus(text);
     storageManager.seedHistory(text);
@@ -452,9 +900,56 @@ function initStageToggle(previewContent: HTMLElement, editor: EditorView): void
       return;
     }
 
+    // Mermaid 图表与源码切换
+    const mermaidToggleBtn = target?.closest('.mermaid-toggle-btn') as HTMLElement | null;
+    if (mermaidToggleBtn) {
+      toggleMermaidSource(mermaidToggleBtn);
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
+    // 完成度趋势：显示 / 隐藏阶段折线
+    const trendLegendBtn = target?.closest('.completion-trend-legend-item') as HTMLElement | null;
+    if (trendLegendBtn) {
+      toggleTrendStage(trendLegendBtn);
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
+    // diff 代码块：切换并排 / 统一显示
+    const diffModeBtn = target?.closest('.diff-mode-btn') as HTMLElement | null;
+    if (diffModeBtn) {
+      setDiffBlockMode(diffModeBtn);
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
+    // 时间轴事件：展开并滚动到所属阶段
+    const eventBtn = target?.closest('.timeline-event') as HTMLButtonElement | null;
+    if (eventBtn) {
+      const stage = previewContent.querySelector<HTMLElement>(
+        `.lifecycle-stage[data-report-index="${eventBtn.dataset.reportIndex}"]`
+      );
+      if (stage) {
+        stage.classList.remove('collapsed');
+        stage.classList.add('expanded');
+        const icon = stage.querySelector('.stage-toggle-icon');
+        if (icon) {
+          icon.textContent = '▲';
+        }
+        stage.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      return;
+    }
+
     const anchorBtn = target?.closest(
-      '.stage-anchor-btn, .stage-heading-anchor-btn'
-    ) as HTMLButtonElement | null;
+      '.stage-anchor-btn, .stage-heading-anchor-btn, .chart-event, .intelligence-line-btn, .completion-jump-btn'
+    ) as HTMLElement | null;
     if (anchorBtn) {
       const lineValue = anchorBtn.dataset.line;
       if (lineValue) {
@@ -784,6 +1279,12 @@ function initGithubIntegration(editor: EditorView, previewContent: HTMLElement):
     config = { ...config, ...partial };
     persist();
     syncModeUI();
+    // 报告位置变化后，已加载的远程提交不再对应当前报告
+    const credentialKeys = ['token', 'rememberToken', 'commitMessage'];
+    if (Object.keys(partial).some(key => !credentialKeys.includes(key))) {
+      remoteSnapshots = [];
+      remoteSnapshotStatus = null;
+    }
   };
 
   const setAdvancedExpanded = (expanded: boolean) => {
@@ -951,7 +1452,8 @@ function initGithubIntegration(editor: EditorView, previewContent: HTMLElement):
         editor.dispatch({
           changes: { from: 0, to: editor.state.doc.length, insert: result.data },
         });
-        renderCurrentView(result.data, previewContent);
+        setContentSource('remote');
+        renderCurrentView(result.data, previewContent, true);
         storageManager.manualSave(result.data);
         updateSaveStatus(result.data);
         storageManager.seedHistory(result.data);
@@ -977,7 +1479,8 @@ function initGithubIntegration(editor: EditorView, previewContent: HTMLElement):
         editor.dispatch({
           changes: { from: 0, to: editor.state.doc.length, insert: result.data },
         });
-        renderCurrentView(result.data, previewContent);
+        setContentSource('remote');
+        renderCurrentView(result.data, previewContent, true);
         storageManager.manualSave(result.data);
         updateSaveStatus(result.data);
         storageManager.seedHistory(result.data);
@@ -1103,10 +1606,228 @@ function initGithubIntegration(editor: EditorView, previewContent: HTMLElement):
     void handleLoad();
   });
 
+  // 完成度趋势：逐个读取报告文件的历史提交（Repo）或修订（Gist）
+  let loadingSnapshots = false;
+
+  const updateSnapshotStatus = (text: string) => {
+    remoteSnapshotStatus = text;
+    if (currentView === 'completion') {
+      renderCurrentView(editor.state.doc.toString(), previewContent, true);
+    }
+  };
+
+  const loadRemoteSnapshots = async () => {
+    if (config.mode === 'local') {
+      updateSnapshotStatus('当前为 Local 模式，请先在设置中配置 Gist 或 Repo');
+      return;
+    }
+    if (!config.token) {
+      updateSnapshotStatus('请先在设置中填写 PAT');
+      return;
+    }
+    if (
+      config.mode === 'gist'
+        ? !config.gistId.trim()
+        : !config.repoOwner.trim() || !config.repoName.trim()
+    ) {
+      updateSnapshotStatus(
+        config.mode === 'gist' ? '请先在设置中填写 Gist ID' : '请先在设置中填写 owner/repo'
+      );
+      return;
+    }
+
+    loadingSnapshots = true;
+    updateSnapshotStatus('正在加载远程提交...');
+
+    const owner = config.repoOwner.trim();
+    const repo = config.repoName.trim();
+    const branch = (config.repoBranch || 'main').trim();
+    const path = applyTemplate(config.repoPath || 'reports/{{date}}.md');
+    const filename = config.gistFilename ? applyTemplate(config.gistFilename) : undefined;
+
+    const revisions: GithubResult<RemoteRevision[]> =
+      config.mode === 'gist'
+        ? await listGistRevisions({ token: config.token, gistId: config.gistId })
+        : await listRepoCommits({ token: config.token, owner, repo, branch, path });
+    if (!revisions.ok || !revisions.data) {
+      loadingSnapshots = false;
+      updateSnapshotStatus(`加载远程提交失败：${revisions.error ?? '未知错误'}`);
+      return;
+    }
+
+    // 逐个读取，避免同时发起大量请求触发 GitHub 限流
+    const snapshots: CompletionSnapshot[] = [];
+    let failed = 0;
+    for (const revision of revisions.data) {
+      const result =
+        config.mode === 'gist'
+          ? await readFromGist({
+              token: config.token,
+              gistId: config.gistId,
+              filename,
+              revision: revision.sha,
+            })
+          : await readFromRepo({
+              token: config.token,
+              owner,
+              repo,
+              branch,
+              path,
+              ref: revision.sha,
+            });
+      if (result.ok && typeof result.data === 'string') {
+        snapshots.push({
+          id: `remote_${revision.sha}`,
+          timestamp: Date.parse(revision.date),
+          source: 'remote',
+          label: `${revision.sha.slice(0, 7)}${revision.message ? ` ${revision.message}` : ''}`,
+          content: result.data,
+        });
+      } else {
+        failed++;
+        logger.warn('Failed to read remote revision:', revision.sha, result.error);
+      }
+    }
+
+    remoteSnapshots = snapshots;
+    loadingSnapshots = false;
+    updateSnapshotStatus(
+      `已加载 ${snapshots.length} 个远程提交${failed > 0 ? `，${failed} 个读取失败` : ''}`
+    );
+  };
+
+  previewContent.addEventListener('click', event => {
+    const button = (event.target as HTMLElement | null)?.closest<HTMLButtonElement>(
+      '.completion-trend-remote-btn'
+    );
+    if (!button) return;
+    event.preventDefault();
+    if (loadingSnapshots) return;
+    void loadRemoteSnapshots();
+  });
+
   applyConfigToInputs();
   setBusy(false);
 }
 
+// 初始化生命周期 schema 设置（位于设置弹窗中）
+function initSchemaSettings(editor: EditorView, previewContent: HTMLElement): void {
+  const defaultSelect = document.getElementById(
+    'schema-default-select'
+  ) as HTMLSelectElement | null;
+  const definitionInput = document.getElementById(
+    'schema-definition-input'
+  ) as HTMLTextAreaElement | null;
+  const applyBtn = document.getElementById('schema-apply-btn') as HTMLButtonElement | null;
+  const statusEl = document.getElementById('schema-status');
+
+  if (!defaultSelect || !definitionInput || !applyBtn || !statusEl) {
+    logger.error('Schema settings elements not found');
+    return;
+  }
+
+  let config: SchemaConfig = loadSchemaConfig();
+
+  const setStatus = (text: string, kind: GithubStatusKind = 'info') => {
+    statusEl.textContent = text;
+    statusEl.className = `github-status ${kind}`;
+  };
+
+  const renderOptions = () => {
+    const schemas = getAvailableSchemas();
+    defaultSelect.innerHTML = schemas
+      .map(
+        schema =>
+          `<option value="${escapeHtml(schema.id)}">${escapeHtml(schema.name)}（${escapeHtml(schema.id)}）</option>`
+      )
+      .join('');
+    defaultSelect.value = schemas.some(schema => schema.id === config.defaultSchemaId)
+      ? config.defaultSchemaId
+      : schemas[0].id;
+  };
+
+  // schema 变化后需要整体重新解析
+  const applyConfig = (next: SchemaConfig) => {
+    config = next;
+    saveSchemaConfig(config);
+    applySchemaConfig(config);
+    currentReport = null;
+    renderCurrentView(editor.state.doc.toString(), previewContent);
+  };
+
+  definitionInput.value = config.source;
+  renderOptions();
+  setStatus(
+    `共 ${getAvailableSchemas().length} 个 schema，可在 front matter 中通过 schema: <id> 选择`
+  );
+
+  defaultSelect.addEventListener('change', () => {
+    applyConfig({ ...config, defaultSchemaId: defaultSelect.value });
+    setStatus(`默认 schema 已切换为 ${defaultSelect.value}`, 'success');
+  });
+
+  applyBtn.addEventListener('click', () => {
+    const source = definitionInput.value;
+    const result = parseLifecycleSchemas(source);
+    if (!result.ok) {
+      setStatus(result.error ?? 'schema 解析失败', 'error');
+      return;
+    }
+    applyConfig({ ...config, source });
+    renderOptions();
+    // 默认 schema 被删除时回退到内置 schema
+    if (defaultSelect.value !== config.defaultSchemaId) {
+      applyConfig({ ...config, defaultSchemaId: defaultSelect.value });
+    }
+    setStatus(`已应用 ${result.data?.length ?? 0} 个自定义 schema`, 'success');
+  });
+}
+
+// 初始化完成度评分规则设置（位于设置弹窗中）
+function initScoringSettings(editor: EditorView, previewContent: HTMLElement): void {
+  const definitionInput = document.getElementById(
+    'scoring-definition-input'
+  ) as HTMLTextAreaElement | null;
+  const applyBtn = document.getElementById('scoring-apply-btn') as HTMLButtonElement | null;
+  const statusEl = document.getElementById('scoring-status');
+
+  if (!definitionInput || !applyBtn || !statusEl) {
+    logger.error('Scoring settings elements not found');
+    return;
+  }
+
+  const config: ScoringConfig = loadScoringConfig();
+
+  const setStatus = (text: string, kind: GithubStatusKind = 'info') => {
+    statusEl.textContent = text;
+    statusEl.className = `github-status ${kind}`;
+  };
+
+  definitionInput.value = config.source;
+  const initial = parseCompletionScoring(config.source);
+  if (initial.ok) {
+    setStatus(
+      config.source.trim() ? '已使用自定义完成度规则' : '使用默认规则：TODO 标记，元数据占 20%'
+    );
+  } else {
+    setStatus(`已保存的规则无效，使用默认规则：${initial.error ?? ''}`, 'error');
+  }
+
+  applyBtn.addEventListener('click', () => {
+    const source = definitionInput.value;
+    const result = parseCompletionScoring(source);
+    if (!result.ok) {
+      setStatus(result.error ?? '完成度规则解析失败', 'error');
+      return;
+    }
+    const next: ScoringConfig = { ...config, source };
+    saveScoringConfig(next);
+    applyScoringConfig(next);
+    renderCurrentView(editor.state.doc.toString(), previewContent, true);
+    setStatus(source.trim() ? '已应用自定义完成度规则' : '已恢复默认规则', 'success');
+  });
+}
+
 // 初始化历史版本弹窗功能
 function initHistoryModal(editor: EditorView, previewContent: HTMLElement): void {
   const historyBtn = document.getElementById('history-btn') as HTMLButtonElement | null;
@@ -1480,5 +2201,32 @@ function initTimelineToggle(): void {
   });
 }
 
+// 初始化时间轴排序切换（文档顺序 / 时间顺序）
+function initTimelineOrderToggle(editor: EditorView, previewContent: HTMLElement): void {
+  const timelineOrderBtn = document.getElementById(
+    'timeline-order-btn'
+  ) as HTMLButtonElement | null;
+
+  if (!timelineOrderBtn) {
+    logger.error('Timeline order button not found');
+    return;
+  }
+
+  // 从 localStorage 加载排序方式
+  timelineOrder = loadTimelineOrder();
+  updateTimelineOrderButton();
+  updateTimelineToggleVisibility();
+
+  timelineOrderBtn.addEventListener('click', () => {
+    timelineOrder = timelineOrder === 'chronological' ? 'document' : 'chronological';
+    saveTimelineOrder(timelineOrder);
+    updateTimelineOrderButton();
+
+    if (currentView === 'lifecycle') {
+      renderCurrentView(editor.state.doc.toString(), previewContent, true);
+    }
+  });
+}
+
 // 页面加载完成后初始化
 document.addEventListener('DOMContentLoaded', initApp);
@@ -0,0 +1,134 @@
+import type { Mermaid } from 'mermaid';
+import { logger } from './logger.js';
+import { escapeHtml } from './renderer.js';
+
+// Mermaid 图表渲染：代码块在 renderer 中替换为占位元素，插入页面后再异步渲染为 SVG
+
+type DiagramResult = { ok: true; svg: string } | { ok: false; error: string };
+
+const MAX_CACHE_SIZE = 50;
+
+let mermaidPromise: Promise<Mermaid> | null = null;
+let diagramCounter = 0;
+
+// 按源码缓存渲染结果，预览在每次编辑后重新生成 HTML，未改动的图表无需重新渲染
+const diagramCache = new Map<string, Promise<DiagramResult>>();
+
+// 用户切换为查看源码的图表（按源码记录，重新渲染后保持）
+const sourceVisible = new Set<string>();
+
+// 首次遇到 mermaid 代码块时才加载 Mermaid（体积较大，单独打包）
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid')
+      .then(module => {
+        const mermaid = module.default;
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: 'strict',
+          theme: 'default',
+        });
+        return mermaid;
+      })
+      .catch(error => {
+        mermaidPromise = null;
+        throw error;
+      });
+  }
+  return mermaidPromise;
+}
+
+function renderDiagram(source: string): Promise<DiagramResult> {
+  const cached = diagramCache.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  const result = loadMermaid()
+    .then(async mermaid => {
+      diagramCounter++;
+      const { svg } = await mermaid.render(`mermaid-diagram-${diagramCounter}`, source);
+      return { ok: true, svg } as DiagramResult;
+    })
+    .catch(error => {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, error: message } as DiagramResult;
+    });
+
+  if (diagramCache.size >= MAX_CACHE_SIZE) {
+    const oldest = diagramCache.keys().next().value;
+    if (oldest !== undefined) {
+      diagramCache.delete(oldest);
+    }
+  }
+  diagramCache.set(source, result);
+  return result;
+}
+
+function applyDiagramResult(diagram: HTMLElement, result: DiagramResult): void {
+  diagram.classList.remove('mermaid-pending');
+  if (result.ok) {
+    diagram.classList.remove('mermaid-error');
+    diagram.innerHTML = result.svg;
+    return;
+  }
+  diagram.classList.add('mermaid-error');
+  diagram.innerHTML =
+    '<div class="mermaid-error-title">图表语法错误</div>' +
+    `<pre class="mermaid-error-message">${escapeHtml(result.error)}</pre>`;
+}
+
+function getDiagramSource(block: Element): string {
+  return block.querySelector('pre code')?.textContent ?? '';
+}
+
+function updateToggleButton(block: HTMLElement, showSource: boolean): void {
+  block.classList.toggle('show-source', showSource);
+  const button = block.querySelector<HTMLButtonElement>('.mermaid-toggle-btn');
+  if (button) {
+    button.textContent = showSource ? '查看图表' : '查看源码';
+    button.setAttribute('aria-pressed', showSource ? 'true' : 'false');
+  }
+}
+
+// 渲染容器中尚未渲染的 Mermaid 图表
+export async function renderMermaidDiagrams(container: HTMLElement): Promise<void> {
+  const diagrams = Array.from(
+    container.querySelectorAll<HTMLElement>('.mermaid-block .mermaid-diagram.mermaid-pending')
+  );
+  if (diagrams.length === 0) {
+    return;
+  }
+
+  await Promise.all(
+    diagrams.map(async diagram => {
+      const block = diagram.closest<HTMLElement>('.mermaid-block');
+      if (!block) return;
+      const source = getDiagramSource(block);
+      updateToggleButton(block, sourceVisible.has(source));
+
+      const result = await renderDiagram(source);
+      // 等待期间预览可能已重新渲染，占位元素不在页面中时丢弃结果
+      if (diagram.isConnected) {
+        applyDiagramResult(diagram, result);
+      }
+    })
+  ).catch(error => {
+    logger.error('Failed to render mermaid diagrams:', error);
+  });
+}
+
+// 在图表与源码之间切换
+export function toggleMermaidSource(button: HTMLElement): void {
+  const block = button.closest<HTMLElement>('.mermaid-block');
+  if (!block) return;
+
+  const source = getDiagramSource(block);
+  const showSource = !block.classList.contains('show-source');
+  if (showSource) {
+    sourceVisible.add(source);
+  } else {
+    sourceVisible.delete(source);
+  }
+  updateToggleButton(block, showSource);
+}
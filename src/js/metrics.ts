@@ -0,0 +1,284 @@
+import { extractTimeInfo } from './chronology.js';
+import { isPlaceholderValue } from './fieldTypes.js';
+import { getBasicInfo, type BasicInfo } from './parser.js';
+import type { ReportDocument } from './reportDocument.js';
+import { detectStage } from './schema.js';
+
+// 指标端点：某一阶段中的时间字段，阶段中未填写时可回退到基本信息表格中的日期
+interface MetricPointDefinition {
+  name: string; // 显示名称
+  stage: string; // schema 中的阶段名称
+  labels: string[]; // 时间字段名（精确匹配，避免"捕获时间"误匹配"最早可捕获时间"）
+  basicInfo?: 'introduceDate' | 'reportDate' | 'publishDate';
+}
+
+const POINTS: Record<string, MetricPointDefinition> = {
+  introduce: {
+    name: '引入时间',
+    stage: '漏洞引入',
+    labels: ['提交时间', '引入时间'],
+    basicInfo: 'introduceDate',
+  },
+  discover: { name: '发现时间', stage: '漏洞发现', labels: ['发现时间'] },
+  report: { name: '上报时间', stage: '漏洞上报', labels: ['上报时间'], basicInfo: 'reportDate' },
+  response: { name: '响应时间', stage: '漏洞上报', labels: ['响应时间'] },
+  fix: { name: '修复时间', stage: '漏洞修复', labels: ['修复时间', '合入时间'] },
+  publish: { name: '公告时间', stage: '漏洞公告', labels: ['公告时间'], basicInfo: 'publishDate' },
+  exploit: { name: 'EXP 公开时间', stage: '漏洞利用', labels: ['EXP 公开时间', 'EXP公开时间'] },
+  earliestCapture: { name: '最早可捕获时间', stage: '漏洞情报', labels: ['最早可捕获时间'] },
+  capture: { name: '捕获时间', stage: '漏洞情报', labels: ['捕获时间'] },
+};
+
+export type MetricId =
+  | 'latent-period'
+  | 'exposure-window'
+  | 'vendor-response'
+  | 'time-to-fix'
+  | 'fix-to-advisory'
+  | 'advisory-to-exploit'
+  | 'intelligence-lag';
+
+interface MetricDefinition {
+  id: MetricId;
+  name: string;
+  description: string;
+  from: MetricPointDefinition;
+  to: MetricPointDefinition;
+}
+
+export const METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    id: 'latent-period',
+    name: '潜伏期',
+    description: '漏洞引入到被发现',
+    from: POINTS.introduce,
+    to: POINTS.discover,
+  },
+  {
+    id: 'exposure-window',
+    name: '暴露窗口',
+    description: '漏洞引入到修复',
+    from: POINTS.introduce,
+    to: POINTS.fix,
+  },
+  {
+    id: 'vendor-response',
+    name: '厂商响应',
+    description: '上报到厂商响应',
+    from: POINTS.report,
+    to: POINTS.response,
+  },
+  {
+    id: 'time-to-fix',
+    name: '修复耗时',
+    description: '上报到修复',
+    from: POINTS.report,
+    to: POINTS.fix,
+  },
+  {
+    id: 'fix-to-advisory',
+    name: '修复到公告',
+    description: '修复到发布公告',
+    from: POINTS.fix,
+    to: POINTS.publish,
+  },
+  {
+    id: 'advisory-to-exploit',
+    name: '公告到 EXP 公开',
+    description: '发布公告到首个公开利用',
+    from: POINTS.publish,
+    to: POINTS.exploit,
+  },
+  {
+    id: 'intelligence-lag',
+    name: '情报滞后',
+    description: '最早可捕获到实际捕获',
+    from: POINTS.earliestCapture,
+    to: POINTS.capture,
+  },
+];
+
+// ok：已取得日期；missing-stage：报告中没有对应阶段；missing-field：未填写；invalid：无法解析
+export type MetricPointStatus = 'ok' | 'missing-stage' | 'missing-field' | 'invalid';
+
+export interface MetricPoint {
+  name: string;
+  stage: string;
+  status: MetricPointStatus;
+  label: string | null; // 实际使用的字段，来自基本信息时带 "基本信息" 前缀
+  value: string | null;
+  timestamp: number | null;
+  line: number | null;
+}
+
+// ok：两端日期齐全；missing：缺少任一端点；negative：结束日期早于开始日期
+export type MetricStatus = 'ok' | 'missing' | 'negative';
+
+export interface LifecycleMetric {
+  id: MetricId;
+  name: string;
+  description: string;
+  from: MetricPoint;
+  to: MetricPoint;
+  days: number | null; // 缺少端点时为 null
+  status: MetricStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function resolveBasicInfoPoint(
+  basicInfo: BasicInfo | null,
+  definition: MetricPointDefinition
+): MetricPoint | null {
+  if (!basicInfo || !definition.basicInfo) return null;
+  const date = basicInfo[definition.basicInfo];
+  const row = basicInfo.rows.find(item => item.field === definition.basicInfo);
+  if (!date || !row) return null;
+  return {
+    name: definition.name,
+    stage: definition.stage,
+    status: 'ok',
+    label: `基本信息 ${row.item}`,
+    value: date.iso,
+    timestamp: date.timestamp,
+    line: row.line,
+  };
+}
+
+function resolvePoint(
+  report: ReportDocument,
+  basicInfo: BasicInfo | null,
+  definition: MetricPointDefinition
+): MetricPoint {
+  const base = {
+    name: definition.name,
+    stage: definition.stage,
+    label: null,
+    value: null,
+    timestamp: null,
+    line: null,
+  };
+  const stage = report.stages.find(
+    item => detectStage(item.title, report.schema)?.stage.name === definition.stage
+  );
+  const info = stage
+    ? definition.labels
+        .map(label => extractTimeInfo(stage).find(item => item.label.trim() === label))
+        .find(Boolean)
+    : undefined;
+
+  if (info && info.timestamp !== null) {
+    return {
+      ...base,
+      status: 'ok',
+      label: info.label,
+      value: info.value,
+      timestamp: info.timestamp,
+      line: info.line,
+    };
+  }
+
+  const fallback = resolveBasicInfoPoint(basicInfo, definition);
+  if (fallback) {
+    return fallback;
+  }
+
+  if (!stage) {
+    return { ...base, status: 'missing-stage' };
+  }
+  if (!info || isPlaceholderValue(info.value)) {
+    return { ...base, status: 'missing-field', line: info?.line ?? null };
+  }
+  return { ...base, status: 'invalid', label: info.label, value: info.value, line: info.line };
+}
+
+// 根据报告中的日期计算各项生命周期指标；缺少数据的指标仍会返回，并标明缺失原因
+export function computeLifecycleMetrics(report: ReportDocument): LifecycleMetric[] {
+  const basicInfo = getBasicInfo(report);
+
+  return METRIC_DEFINITIONS.map(definition => {
+    const from = resolvePoint(report, basicInfo, definition.from);
+    const to = resolvePoint(report, basicInfo, definition.to);
+    const days =
+      from.timestamp !== null && to.timestamp !== null
+        ? Math.round((to.timestamp - from.timestamp) / DAY_MS)
+        : null;
+    let status: MetricStatus = 'ok';
+    if (days === null) {
+      status = 'missing';
+    } else if (days < 0) {
+      status = 'negative';
+    }
+    return {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      from,
+      to,
+      days,
+      status,
+    };
+  });
+}
+
+// 端点缺失原因
+export function describeMetricPoint(point: MetricPoint): string {
+  if (point.status === 'ok') {
+    return point.value ?? '';
+  } else if (point.status === 'missing-stage') {
+    return `缺少「${point.stage}」阶段`;
+  } else if (point.status === 'missing-field') {
+    return `未填写${point.name}`;
+  }
+  return `无法解析「${point.value ?? ''}」`;
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 导出为 CSV（缺失的日期与天数留空，并在 note 列说明原因）
+export function metricsToCsv(metrics: LifecycleMetric[]): string {
+  const header = ['id', 'name', 'from', 'from_date', 'to', 'to_date', 'days', 'status', 'note'];
+  const rows = metrics.map(metric => {
+    const notes = [metric.from, metric.to]
+      .filter(point => point.status !== 'ok')
+      .map(describeMetricPoint);
+    return [
+      metric.id,
+      metric.name,
+      metric.from.name,
+      metric.from.status === 'ok' ? metric.from.value : null,
+      metric.to.name,
+      metric.to.status === 'ok' ? metric.to.value : null,
+      metric.days,
+      metric.status,
+      notes.join('；'),
+    ]
+      .map(csvCell)
+      .join(',');
+  });
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+// 导出为 JSON，包含报告标题，便于跨报告汇总
+export function metricsToJson(report: ReportDocument, metrics: LifecycleMetric[]): string {
+  return JSON.stringify(
+    {
+      title: report.title,
+      generatedAt: new Date().toISOString(),
+      metrics: metrics.map(metric => ({
+        id: metric.id,
+        name: metric.name,
+        description: metric.description,
+        status: metric.status,
+        days: metric.days,
+        from: metric.from,
+        to: metric.to,
+      })),
+    },
+    null,
+    2
+  );
+}
@@ -1,295 +1,322 @@
-import { extractStageNumber } from './config.js';
+import {
+  buildReportDocument,
+  type ReportDocument,
+  type ReportStage,
+  type ReportTable,
+} from './reportDocument.js';
 
-// 元数据项接口
-export interface MetadataItem {
-  label: string; // 字段标签
-  value: string; // 字段值
-  type: 'time' | 'person' | 'version' | 'link' | 'text'; // 字段类型
-  icon?: string; // 图标(可选)
-}
+export type { MetadataItem, StageMetadata, StageHeading } from './reportDocument.js';
 
-// 章节元数据接口
-export interface StageMetadata {
-  items: MetadataItem[]; // 元数据项列表
-}
-
-// 生命周期阶段接口
-export interface LifecycleStage {
-  title: string;
-  stageNum: number | null;
-  content: string;
-  metadata?: StageMetadata; // 元数据(可选)
-  startLine: number | null; // Markdown 起始行号（1-based）
-  headings?: StageHeading[]; // 子标题及行号
-}
-
-// 子标题信息
-export interface StageHeading {
-  title: string;
-  level: number; // 1-6
-  line: number; // 1-based 行号
-}
+// 生命周期阶段接口（即报告 AST 中的阶段节点）
+export type LifecycleStage = ReportStage;
 
 // 解析 Markdown 并提取生命周期阶段
 export function parseLifecycleStages(markdown: string): LifecycleStage[] {
-  const stages: LifecycleStage[] = [];
-  const lines = markdown.split('\n');
-  let currentStage: { title: string; stageNum: number | null; startLine: number | null } | null =
-    null;
-  let currentContent: string[] = [];
-  let currentHeadings: StageHeading[] = [];
-  let inFrontMatter = false;
-  let frontMatterResolved = false;
-  let seenNonEmptyBeforeFrontMatter = false;
-  let inFencedCodeBlock = false;
-  let fenceMarker: '`' | '~' | null = null;
-  let fenceLength = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmedLine = line.trim();
-
-    // 处理 front matter（仅文档开头位置生效）
-    if (!frontMatterResolved) {
-      if (!seenNonEmptyBeforeFrontMatter && trimmedLine.length === 0) {
-        continue;
-      }
-
-      if (!seenNonEmptyBeforeFrontMatter && trimmedLine.match(/^---\s*$/)) {
-        inFrontMatter = true;
-        frontMatterResolved = true;
-        continue;
-      }
-
-      if (trimmedLine.length > 0) {
-        seenNonEmptyBeforeFrontMatter = true;
-        frontMatterResolved = true;
-      }
-    }
-
-    if (inFrontMatter) {
-      if (trimmedLine.match(/^---\s*$/)) {
-        inFrontMatter = false;
-      }
-      continue;
-    }
-
-    const fenceOpenMatch = line.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
-    if (!inFencedCodeBlock && fenceOpenMatch) {
-      inFencedCodeBlock = true;
-      fenceMarker = fenceOpenMatch[1][0] as '`' | '~';
-      fenceLength = fenceOpenMatch[1].length;
-
-      if (currentStage) {
-        currentContent.push(line);
-      }
-      continue;
-    }
-
-    if (inFencedCodeBlock) {
-      const fenceCloseMatch = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
-      if (
-        fenceCloseMatch &&
-        fenceMarker &&
-        fenceCloseMatch[1][0] === fenceMarker &&
-        fenceCloseMatch[1].length >= fenceLength
-      ) {
-        inFencedCodeBlock = false;
-        fenceMarker = null;
-        fenceLength = 0;
-      }
+  return buildReportDocument(markdown).stages;
+}
 
-      if (currentStage) {
-        currentContent.push(line);
-      }
-      continue;
-    }
+// 提取文档标题
+export function extractTitle(markdown: string): string {
+  return buildReportDocument(markdown).title;
+}
 
-    // 检测二级标题（##）
-    const h2Match = line.match(/^##\s+(.+)$/);
-    if (h2Match) {
-      // 保存前一个阶段
-      if (currentStage) {
-        const content = currentContent.join('\n').trim();
-        const metadata = extractStageMetadata(content);
-        stages.push({
-          title: currentStage.title,
-          stageNum: currentStage.stageNum,
-          content,
-          metadata: metadata.items.length > 0 ? metadata : undefined,
-          startLine: currentStage.startLine,
-          headings: currentHeadings,
-        });
-      }
+// 解析日期字符串为时间戳
+export function parseDate(dateStr: string): number | null {
+  if (!dateStr || dateStr.includes('需要修改') || dateStr.includes('待填写')) {
+    return null;
+  }
 
-      // 开始新阶段
-      const title = h2Match[1].trim();
-      const stageNum = extractStageNumber(title);
-      currentStage = { title, stageNum, startLine: i + 1 };
-      currentContent = [];
-      currentHeadings = [];
-      continue;
-    }
+  // 移除可能的括号内容
+  dateStr = dateStr.replace(/\s*\([^)]*\)\s*$/, '').trim();
 
-    // 检测一级标题（#）- 作为文档标题，跳过
-    const h1Match = line.match(/^#\s+(.+)$/);
-    if (h1Match && !currentStage) {
-      continue;
-    }
+  // 尝试多种日期格式
+  const formats = [
+    /^(\d{4})-(\d{1,2})-(\d{1,2})$/, // YYYY-MM-DD
+    /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, // YYYY/MM/DD
+    /^(\d{4})\.(\d{1,2})\.(\d{1,2})$/, // YYYY.MM.DD
+    /^(\d{4})(\d{2})(\d{2})$/, // YYYYMMDD
+  ];
 
-    if (currentStage) {
-      const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-      if (headingMatch) {
-        const level = headingMatch[1].length;
-        currentHeadings.push({
-          title: headingMatch[2].trim(),
-          level,
-          line: i + 1,
-        });
+  for (const format of formats) {
+    const match = dateStr.match(format);
+    if (match) {
+      const year = parseInt(match[1], 10);
+      const month = parseInt(match[2], 10) - 1; // 月份从 0 开始
+      const day = parseInt(match[3], 10);
+      const date = new Date(year, month, day);
+      if (!isNaN(date.getTime())) {
+        return date.getTime();
       }
     }
-
-    // 收集内容
-    if (currentStage) {
-      currentContent.push(line);
-    }
   }
 
-  // 保存最后一个阶段
-  if (currentStage) {
-    const content = currentContent.join('\n').trim();
-    const metadata = extractStageMetadata(content);
-    stages.push({
-      title: currentStage.title,
-      stageNum: currentStage.stageNum,
-      content,
-      metadata: metadata.items.length > 0 ? metadata : undefined,
-      startLine: currentStage.startLine,
-      headings: currentHeadings,
-    });
+  // 尝试直接解析
+  const date = new Date(dateStr);
+  if (!isNaN(date.getTime())) {
+    return date.getTime();
   }
 
-  return stages;
+  return null;
 }
 
-// 提取文档标题
-export function extractTitle(markdown: string): string {
-  const lines = markdown.split('\n');
-  // 跳过 front matter
-  let inFrontMatter = false;
-  for (const line of lines) {
-    if (line.match(/^---\s*$/)) {
-      inFrontMatter = !inFrontMatter;
-      continue;
-    }
-    if (inFrontMatter) continue;
-
-    const match = line.match(/^#\s+(.+)$/);
-    if (match) {
-      return match[1].trim();
-    }
-  }
-  return '漏洞研究报告';
+// 基本信息中的链接（url 为 null 表示纯文本）
+export interface BasicInfoLink {
+  text: string;
+  url: string | null;
 }
 
-// 提取章节元数据（只提取章节开头区域的元数据，在第一个子标题之前）
-export function extractStageMetadata(content: string): StageMetadata {
-  const items: MetadataItem[] = [];
-  const lines = content.split('\n');
+// 基本信息中的日期
+export interface BasicInfoDate {
+  raw: string;
+  timestamp: number;
+  iso: string; // YYYY-MM-DD
+}
 
-  // 时间相关的关键字
-  const timeKeywords = ['时间', 'date', 'time'];
-  // 人员相关的关键字
-  const personKeywords = [
-    '者',
-    '人员',
-    '研究者',
-    '提交者',
-    '审查者',
-    '开发者',
-    '发现者',
-    'author',
-    'researcher',
-    'developer',
-  ];
-  // 版本相关的关键字
-  const versionKeywords = ['版本', 'version', 'release'];
-  // 链接相关的关键字
-  const linkKeywords = ['PR', 'Commit', 'CVE', 'CWE', 'URL', 'Link', '链接', '地址'];
+// 基本信息中的 CVSS
+export interface BasicInfoCvss {
+  raw: string;
+  score: number | null; // 手工填写的分数
+  vector: string | null; // CVSS:3.1/... 或 CVSS:4.0/...
+}
 
-  // 用于记录已处理的行,避免重复提取
-  const processedLines = new Set<number>();
+// 基本信息表格中可识别的字段
+export type BasicInfoField =
+  | 'project'
+  | 'id'
+  | 'confirmLink'
+  | 'author'
+  | 'cvss'
+  | 'exploits'
+  | 'affectVersion'
+  | 'fixVersion'
+  | 'originalReport'
+  | 'fixCommit'
+  | 'introduceCommit'
+  | 'introduceDate'
+  | 'reportDate'
+  | 'intelligenceDate'
+  | 'publishDate';
+
+// 基本信息表格行
+export interface BasicInfoRow {
+  item: string; // 第一列原文
+  field: BasicInfoField | null; // null 表示无法识别的行
+  cells: string[]; // 所有单元格（含第一列）
+  details: string; // Details 列原文
+  note: string; // Note 列原文
+  values: string[]; // 去掉 TODO 标记后按 <br> 拆分的值
+  links: BasicInfoLink[];
+  isTodo: boolean; // 为空或包含 TODO 标记
+  line: number; // 1-based 行号
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+// 基本信息模型（TODO 行不参与归一化，对应字段为空）
+export interface BasicInfo {
+  line: number; // 表格起始行号
+  rows: BasicInfoRow[];
+  project: BasicInfoLink | null;
+  ids: string[];
+  cveIds: string[];
+  confirmLinks: BasicInfoLink[];
+  authors: string[];
+  cvss: BasicInfoCvss | null;
+  exploits: BasicInfoLink[];
+  affectVersions: string[];
+  fixVersions: string[];
+  originalReports: BasicInfoLink[];
+  fixCommits: BasicInfoLink[];
+  introduceCommits: BasicInfoLink[];
+  introduceDate: BasicInfoDate | null;
+  reportDate: BasicInfoDate | null;
+  intelligenceDate: BasicInfoDate | null;
+  publishDate: BasicInfoDate | null;
+}
 
-    // 遇到子标题（### 或更低级别）时停止提取，只提取章节开头区域的元数据
-    if (line.match(/^#{3,}\s+/)) {
-      break;
-    }
+// 表格第一列（小写、去除多余空白）到字段的映射
+const BASIC_INFO_FIELD_ALIASES: Record<string, BasicInfoField> = {
+  project: 'project',
+  id: 'id',
+  ids: 'id',
+  'confirm link': 'confirmLink',
+  "vuln's author": 'author',
+  'vuln author': 'author',
+  author: 'author',
+  cvss: 'cvss',
+  exploits: 'exploits',
+  exploit: 'exploits',
+  'affect version': 'affectVersion',
+  'affected version': 'affectVersion',
+  'affected versions': 'affectVersion',
+  'fix version': 'fixVersion',
+  'fixed version': 'fixVersion',
+  'original report': 'originalReport',
+  'fix commit': 'fixCommit',
+  'introduce commit': 'introduceCommit',
+  'introduce date': 'introduceDate',
+  'report date': 'reportDate',
+  'intelligence gathering date': 'intelligenceDate',
+  'intelligence date': 'intelligenceDate',
+  'publish date': 'publishDate',
+};
+
+const TODO_MARKER_REGEX = /TODO:?/i;
+// 用于 replace 移除单元格中的所有 TODO 标记（带 g 标志的正则在 test 时会保留 lastIndex，不能共用）
+const TODO_MARKER_GLOBAL_REGEX = /TODO:?/gi;
+const CVE_ID_REGEX = /CVE-\d{4}-\d{4,}/gi;
+const CVSS_VECTOR_REGEX = /CVSS:(3\.[01]|4\.0)\/[A-Za-z:/]+/;
+
+// 拆分多值单元格（<br> 分隔），并去掉 TODO 标记
+function splitCellValues(cell: string): string[] {
+  return cell
+    .replace(TODO_MARKER_GLOBAL_REGEX, '')
+    .split(/<br\s*\/?>/i)
+    .map(value => value.trim())
+    .filter(Boolean);
+}
 
-    // 跳过已处理的行
-    if (processedLines.has(i)) {
-      continue;
+function extractLinks(value: string): BasicInfoLink[] {
+  const links: BasicInfoLink[] = [];
+  const linkPattern = /\[([^\]]*)\]\(([^)]*)\)/g;
+  let hasMarkdownLink = false;
+  for (const match of value.matchAll(linkPattern)) {
+    hasMarkdownLink = true;
+    const url = match[2].trim();
+    const text = match[1].trim() || url;
+    if (text || url) {
+      links.push({ text, url: url || null });
     }
+  }
+  if (!hasMarkdownLink && value.trim()) {
+    const text = value.trim();
+    links.push({ text, url: /^https?:\/\//i.test(text) ? text : null });
+  }
+  return links;
+}
 
-    // 匹配列表项格式：- **字段名**：值
-    // 支持中文冒号和英文冒号
-    const match = line.match(/^-\s*\*\*([^*]+)\*\*[：:]\s*(.*)$/);
-    if (!match) {
-      continue;
-    }
+function toBasicInfoDate(value: string | undefined): BasicInfoDate | null {
+  if (!value) return null;
+  const timestamp = parseDate(value);
+  if (timestamp === null) return null;
+  const date = new Date(timestamp);
+  const iso = [
+    String(date.getFullYear()).padStart(4, '0'),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+  return { raw: value, timestamp, iso };
+}
 
-    const label = match[1].trim();
-    let value = match[2].trim();
+function toBasicInfoCvss(value: string | undefined): BasicInfoCvss | null {
+  if (!value) return null;
+  const vectorMatch = value.match(CVSS_VECTOR_REGEX);
+  const scoreMatch = value.replace(CVSS_VECTOR_REGEX, '').match(/(\d{1,2}(?:\.\d)?)/);
+  const score = scoreMatch ? parseFloat(scoreMatch[1]) : null;
+  return {
+    raw: value,
+    score: score !== null && score >= 0 && score <= 10 ? score : null,
+    vector: vectorMatch ? vectorMatch[0].replace(/\/$/, '') : null,
+  };
+}
 
-    // 检查是否为 Markdown 链接格式 [text](url)
-    const isMarkdownLink = /^\[.+\]\(.+\)$/.test(value);
+// 从报告 AST 中的表格解析基本信息
+function parseBasicInfoTable(table: ReportTable): BasicInfo {
+  const rows: BasicInfoRow[] = table.rows.map(({ cells, line }) => {
+    const item = cells[0] ?? '';
+    const details = cells[1] ?? '';
+    const normalizedItem = item.toLowerCase().replace(/\s+/g, ' ').trim();
+    const values = splitCellValues(details);
+    return {
+      item,
+      field: Object.hasOwn(BASIC_INFO_FIELD_ALIASES, normalizedItem)
+        ? BASIC_INFO_FIELD_ALIASES[normalizedItem]
+        : null,
+      cells,
+      details,
+      note: cells[2] ?? '',
+      values,
+      links: values.flatMap(extractLinks),
+      isTodo: details.trim() === '' || TODO_MARKER_REGEX.test(details),
+      line,
+    };
+  });
+
+  const valuesOf = (field: BasicInfoField): string[] => {
+    const row = rows.find(r => r.field === field);
+    return row && !row.isTodo ? row.values : [];
+  };
+  const linksOf = (field: BasicInfoField): BasicInfoLink[] => {
+    const row = rows.find(r => r.field === field);
+    return row && !row.isTodo ? row.links.filter(link => link.text || link.url) : [];
+  };
+  const listOf = (field: BasicInfoField): string[] =>
+    valuesOf(field)
+      .flatMap(value => value.split(/[,，]/))
+      .map(value => value.trim())
+      .filter(Boolean);
+
+  const ids = valuesOf('id');
+  const cveIds = Array.from(
+    new Set(ids.flatMap(id => Array.from(id.matchAll(CVE_ID_REGEX), m => m[0].toUpperCase())))
+  );
+
+  return {
+    line: table.range.startLine,
+    rows,
+    project: linksOf('project')[0] ?? null,
+    ids,
+    cveIds,
+    confirmLinks: linksOf('confirmLink'),
+    authors: listOf('author'),
+    cvss: toBasicInfoCvss(valuesOf('cvss')[0]),
+    exploits: linksOf('exploits'),
+    affectVersions: listOf('affectVersion'),
+    fixVersions: listOf('fixVersion'),
+    originalReports: linksOf('originalReport'),
+    fixCommits: linksOf('fixCommit'),
+    introduceCommits: linksOf('introduceCommit'),
+    introduceDate: toBasicInfoDate(valuesOf('introduceDate')[0]),
+    reportDate: toBasicInfoDate(valuesOf('reportDate')[0]),
+    intelligenceDate: toBasicInfoDate(valuesOf('intelligenceDate')[0]),
+    publishDate: toBasicInfoDate(valuesOf('publishDate')[0]),
+  };
+}
 
-    // 如果不是 Markdown 链接，移除括号内的注释内容（如 "2024-01-01 (待修改)"）
-    if (!isMarkdownLink) {
-      value = value.replace(/\s*\([^)]*\)\s*$/, '').trim();
-    }
+// 从报告 AST 中提取基本信息阶段（schema 中 role 为 basic-info）的表格，未找到该阶段或表格时返回 null
+export function getBasicInfo(report: ReportDocument): BasicInfo | null {
+  const stage = report.stages.find(item => item.role === 'basic-info');
+  const table = stage?.tables[0];
+  if (!table || table.rows.length === 0) {
+    return null;
+  }
+  return parseBasicInfoTable(table);
+}
 
-    // 判断字段类型
-    let type: MetadataItem['type'] = 'text';
-    let icon: string | undefined;
+// 解析第1节"基本信息"表格，未找到该阶段或表格时返回 null
+export function parseBasicInfo(markdown: string): BasicInfo | null {
+  return getBasicInfo(buildReportDocument(markdown));
+}
 
-    // 检查是否为时间类型
-    if (timeKeywords.some(keyword => label.includes(keyword))) {
-      type = 'time';
-      icon = '🕒';
-    }
-    // 检查是否为人员类型
-    else if (personKeywords.some(keyword => label.includes(keyword))) {
-      type = 'person';
-      icon = '👤';
-    }
-    // 检查是否为版本类型
-    else if (versionKeywords.some(keyword => label.toLowerCase().includes(keyword.toLowerCase()))) {
-      type = 'version';
-      icon = '📦';
+// 计算表格行中第 cellIndex 个单元格（0-based）的字符范围，不含两侧的 | 分隔符
+// GFM 表格的行首、行尾竖线都可以省略（如 "CVSS | 7.5 | note"）
+export function getTableCellRange(
+  lineText: string,
+  cellIndex: number
+): { from: number; to: number } | null {
+  const pipes: number[] = [];
+  for (let i = 0; i < lineText.length; i++) {
+    if (lineText[i] === '|' && lineText[i - 1] !== '\\') {
+      pipes.push(i);
     }
-    // 检查是否为链接类型
-    else if (
-      linkKeywords.some(keyword => label.includes(keyword)) ||
-      value.startsWith('http') ||
-      value.includes('://')
-    ) {
-      type = 'link';
-      icon = '🔗';
+  }
+  // 没有前导竖线时，第一个单元格从行首开始
+  const boundaries = lineText.trimStart().startsWith('|') ? pipes : [-1, ...pipes];
+  if (cellIndex + 1 >= boundaries.length) {
+    // 没有行尾竖线时，最后一个单元格延伸到行尾
+    const last = boundaries[cellIndex];
+    if (cellIndex + 1 === boundaries.length && lineText.slice(last + 1).trim()) {
+      return { from: last + 1, to: lineText.length };
     }
-
-    // 添加到元数据列表
-    items.push({
-      label,
-      value,
-      type,
-      icon,
-    });
-
-    processedLines.add(i);
+    return null;
   }
-
-  return { items };
+  return { from: boundaries[cellIndex] + 1, to: boundaries[cellIndex + 1] };
 }
@@ -2,19 +2,91 @@ import { Marked } from 'marked';
 import { markedHighlight } from 'marked-highlight';
 import hljs from 'highlight.js';
 import {
-  parseLifecycleStages,
-  extractTitle,
+  getBasicInfo,
+  type BasicInfo,
   type LifecycleStage,
   type StageMetadata,
   type StageHeading,
 } from './parser.js';
+import {
+  checkChronology,
+  extractTimeInfo,
+  getStageViolations,
+  type ChronologyViolation,
+  type TimeInfo,
+} from './chronology.js';
+import {
+  collectBasicInfoSync,
+  type BasicInfoSyncItem,
+  type SyncDirection,
+} from './basicInfoSync.js';
+import { renderDiffBlocks } from './diffView.js';
+import { isPlaceholderValue, renderFieldValue } from './fieldTypes.js';
+import {
+  INTELLIGENCE_SOURCE_LABELS,
+  parseIntelligenceTimeline,
+  type CaptureComparison,
+  type IntelligenceDateField,
+  type IntelligenceEntry,
+  type IntelligenceTimeline,
+} from './intelligence.js';
+import {
+  buildLifecycleChartData,
+  renderLifecycleChartSvg,
+  type ChartDomain,
+} from './lifecycleChart.js';
+import {
+  computeLifecycleMetrics,
+  describeMetricPoint,
+  type LifecycleMetric,
+  type MetricPoint,
+} from './metrics.js';
+import {
+  buildReportDocument,
+  type NotApplicableMarker,
+  type ReportDocument,
+  type ReportUpdate,
+} from './reportDocument.js';
+import { parseFrontMatter, type FrontMatterResult } from './frontMatter.js';
+import {
+  buildSchemaStyleSheet,
+  getAvailableSchemas,
+  getStageByRole,
+  getStageLabel,
+  type LifecycleSchema,
+  type LifecycleStageDefinition,
+  type StageRole,
+} from './schema.js';
+import {
+  checkCvss,
+  CVSS_METRIC_GROUP_LABELS,
+  CVSS_SEVERITY_LABELS,
+  type CvssMetricGroup,
+} from './cvss.js';
 import { logger } from './logger.js';
+import { isSafeUrl, sanitizeHtml, type SanitizeMode } from './sanitizer.js';
+import {
+  createMarkerMatcher,
+  getStageScoringRule,
+  resolveCompletionScoring,
+  type CompletionThresholds,
+  type StageScoringRule,
+} from './scoring.js';
+import {
+  buildCompletionTrend,
+  renderCompletionTrendHtml,
+  type CompletionSnapshot,
+} from './completionTrend.js';
 
 // HTML 转义函数
+// 转义 HTML 特殊字符；引号也需要转义，结果会用在属性值中
 export function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
 }
 
 // 确保代码块有 hljs 类（后处理函数）
@@ -64,6 +136,15 @@ function createCopyButton(): HTMLButtonElement {
   return button;
 }
 
+function createMermaidToggleButton(): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'mermaid-toggle-btn';
+  button.textContent = '查看源码';
+  button.setAttribute('aria-pressed', 'false');
+  return button;
+}
+
 // 为代码块添加头部（包含语言标签和复制按钮）
 function wrapCodeBlocks(html: string): string {
   const container = document.createElement('div');
@@ -81,6 +162,8 @@ function wrapCodeBlocks(html: string): string {
       return;
     }
 
+    const language = getCodeBlockLanguage(codeEl);
+    const isMermaid = language.toLowerCase() === 'mermaid';
     const wrapper = document.createElement('div');
     wrapper.className = 'code-block-wrapper';
 
@@ -88,106 +171,59 @@ function wrapCodeBlocks(html: string): string {
     header.className = 'code-block-header';
     const langLabel = document.createElement('span');
     langLabel.className = 'code-block-lang';
-    langLabel.textContent = getCodeBlockLanguage(codeEl);
+    langLabel.textContent = language;
     header.appendChild(langLabel);
-    header.appendChild(createCopyButton());
+
+    if (isMermaid) {
+      // Mermaid 图表：源码默认隐藏，图表在插入页面后由 mermaidRenderer 渲染
+      wrapper.classList.add('mermaid-block');
+      const actions = document.createElement('div');
+      actions.className = 'code-block-actions';
+      actions.appendChild(createMermaidToggleButton());
+      actions.appendChild(createCopyButton());
+      header.appendChild(actions);
+    } else {
+      header.appendChild(createCopyButton());
+    }
 
     parent.insertBefore(wrapper, pre);
     wrapper.appendChild(header);
+    if (isMermaid) {
+      const diagram = document.createElement('div');
+      diagram.className = 'mermaid-diagram mermaid-pending';
+      diagram.textContent = '图表渲染中…';
+      wrapper.appendChild(diagram);
+    }
     wrapper.appendChild(pre);
   });
 
   return container.innerHTML;
 }
 
-// 时间信息接口
-export interface TimeInfo {
-  label: string;
-  value: string;
-  timestamp: number | null; // 用于排序的时间戳，null 表示无法解析
-}
-
-// 解析日期字符串为时间戳
-function parseDate(dateStr: string): number | null {
-  if (!dateStr || dateStr.includes('需要修改') || dateStr.includes('待填写')) {
-    return null;
-  }
-
-  // 移除可能的括号内容
-  dateStr = dateStr.replace(/\s*\([^)]*\)\s*$/, '').trim();
-
-  // 尝试多种日期格式
-  const formats = [
-    /^(\d{4})-(\d{1,2})-(\d{1,2})$/, // YYYY-MM-DD
-    /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, // YYYY/MM/DD
-    /^(\d{4})\.(\d{1,2})\.(\d{1,2})$/, // YYYY.MM.DD
-    /^(\d{4})(\d{2})(\d{2})$/, // YYYYMMDD
-  ];
-
-  for (const format of formats) {
-    const match = dateStr.match(format);
-    if (match) {
-      const year = parseInt(match[1], 10);
-      const month = parseInt(match[2], 10) - 1; // 月份从 0 开始
-      const day = parseInt(match[3], 10);
-      const date = new Date(year, month, day);
-      if (!isNaN(date.getTime())) {
-        return date.getTime();
-      }
-    }
-  }
+const CVSS_CALCULATOR_BUTTON_HTML =
+  '<button type="button" class="cvss-calculator-btn" title="打开 CVSS 计算器">计算器</button>';
 
-  // 尝试直接解析
-  const date = new Date(dateStr);
-  if (!isNaN(date.getTime())) {
-    return date.getTime();
+// 为表格中的 CVSS 行添加计算器按钮
+function addCvssCalculatorButtons(html: string): string {
+  if (!/<td[^>]*>\s*CVSS\s*<\/td>/i.test(html)) {
+    return html;
   }
 
-  return null;
-}
-
-// 提取时间信息
-function extractTimeInfo(content: string): TimeInfo[] {
-  const timeInfo: TimeInfo[] = [];
-  const lines = content.split('\n');
-
-  for (const line of lines) {
-    // 匹配列表项格式：- **时间类型**：值
-    // 支持中文冒号和英文冒号，匹配整行直到行尾
-    const match = line.match(/-\s*\*\*([^*]+)\*\*[：:]\s*(.+)$/);
-    if (match) {
-      const fieldName = match[1].trim();
-      let fieldValue = match[2].trim();
-
-      // 只提取包含"时间"的字段
-      if (fieldName.includes('时间')) {
-        // 如果包含"需要修改"，显示为"待填写"
-        if (fieldValue.includes('需要修改')) {
-          fieldValue = '待填写';
-        } else {
-          // 移除可能的括号内容（如 "(需要修改)"），但保留日期部分
-          fieldValue = fieldValue.replace(/\s*\([^)]*\)\s*$/, '').trim();
-        }
-
-        if (fieldValue.length > 0) {
-          const timestamp = parseDate(fieldValue);
-          timeInfo.push({
-            label: fieldName,
-            value: fieldValue,
-            timestamp: timestamp,
-          });
-        }
-      }
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  container.querySelectorAll('tr > td:first-child').forEach(cell => {
+    if (cell.textContent?.trim().toLowerCase() !== 'cvss') {
+      return;
     }
-  }
-
-  return timeInfo;
+    cell.insertAdjacentHTML('beforeend', CVSS_CALCULATOR_BUTTON_HTML);
+    cell.querySelector('.cvss-calculator-btn')?.classList.add('cvss-calculator-inline-btn');
+  });
+  return container.innerHTML;
 }
 
 // 获取阶段的主要时间（用于显示和分组）
 function getPrimaryTimestamp(stage: LifecycleStage): number | null {
-  const content = stage.content.trim();
-  const timeInfo = extractTimeInfo(content);
+  const timeInfo = extractTimeInfo(stage);
 
   if (timeInfo.length === 0) {
     return null;
@@ -483,198 +519,27 @@ marked.setOptions({
   gfm: true,
 });
 
+// 报告中 HTML 的过滤策略，远程加载的报告使用 strict（见 sanitizer.ts）
+let sanitizeMode: SanitizeMode = 'default';
+
+export function setSanitizeMode(mode: SanitizeMode): void {
+  sanitizeMode = mode;
+}
+
+export function getSanitizeMode(): SanitizeMode {
+  return sanitizeMode;
+}
+
 const renderMarkdown = (markdown: string): string => {
   const rendered = marked.parse(markdown);
   if (rendered instanceof Promise) {
     throw new Error('Markdown rendering unexpectedly returned a Promise');
   }
-  // 先添加 hljs 类，再包装代码块
-  return wrapCodeBlocks(ensureHljsClass(rendered));
+  // 先过滤报告中的 HTML，再添加 hljs 类、包装代码块（之后添加的按钮不经过过滤）
+  const sanitized = sanitizeHtml(rendered, sanitizeMode);
+  return addCvssCalculatorButtons(wrapCodeBlocks(ensureHljsClass(sanitized)));
 };
 
-// 解析 Markdown 链接格式 [text](url)
-function parseMarkdownLink(value: string): { text: string; url: string } | null {
-  const match = value.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
-  if (match) {
-    return {
-      text: match[1],
-      url: match[2],
-    };
-  }
-  return null;
-}
-
-// 解析并渲染包含 Markdown 链接的混合文本
-// 例如: "Michael Crosby([@crosbymichael](https://github.com/crosbymichael))"
-function renderValueWithMarkdownLinks(value: string): string {
-  // 先检查是否是完整的 Markdown 链接格式
-  const fullLink = parseMarkdownLink(value);
-  if (fullLink) {
-    return `<a class="metadata-value metadata-link" href="${escapeHtml(fullLink.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(fullLink.text)}</a>`;
-  }
-
-  // 检查是否包含 Markdown 链接模式 [text](url)
-  const linkPattern = /\[([^\]]+)\]\(([^)]+)\)/g;
-  const matches = Array.from(value.matchAll(linkPattern));
-
-  if (matches.length === 0) {
-    // 没有链接，直接转义返回
-    if (value.startsWith('http') || value.includes('://')) {
-      return `<a class="metadata-value metadata-link" href="${escapeHtml(value)}" target="_blank" rel="noopener noreferrer">${escapeHtml(value)}</a>`;
-    }
-    return `<span class="metadata-value">${escapeHtml(value)}</span>`;
-  }
-
-  // 有链接，需要混合渲染
-  let result = '';
-  let lastIndex = 0;
-
-  matches.forEach(match => {
-    const matchIndex = match.index!;
-    const matchLength = match[0].length;
-
-    // 添加链接前的普通文本
-    if (matchIndex > lastIndex) {
-      const textBefore = value.substring(lastIndex, matchIndex);
-      result += escapeHtml(textBefore);
-    }
-
-    // 添加链接
-    const linkText = match[1];
-    const linkUrl = match[2];
-    result += `<a class="metadata-value metadata-link" href="${escapeHtml(linkUrl)}" target="_blank" rel="noopener noreferrer">${escapeHtml(linkText)}</a>`;
-
-    lastIndex = matchIndex + matchLength;
-  });
-
-  // 添加剩余的普通文本
-  if (lastIndex < value.length) {
-    const textAfter = value.substring(lastIndex);
-    result += escapeHtml(textAfter);
-  }
-
-  return `<span class="metadata-value">${result}</span>`;
-}
-
-function isPlaceholderValue(value: string): boolean {
-  const trimmed = value.trim();
-  if (!trimmed) return true;
-
-  if (
-    trimmed.includes('需要修改') ||
-    trimmed.includes('待填写') ||
-    trimmed.includes('待完成') ||
-    trimmed.includes('待处理') ||
-    trimmed.includes('TBD') ||
-    trimmed.includes('N/A') ||
-    trimmed === '...'
-  ) {
-    return true;
-  }
-
-  const chinesePlaceholders = [
-    '研究者名称',
-    '研究机构/公司',
-    '开发者名称',
-    '研究者',
-    '机构',
-    '公司',
-    '开发者',
-  ];
-  if (
-    chinesePlaceholders.some(
-      placeholder => trimmed === placeholder || trimmed.includes(placeholder)
-    )
-  ) {
-    return true;
-  }
-
-  if (
-    /^YYYY-MM-DD$/i.test(trimmed) ||
-    (trimmed.match(/^\d{4}-\d{2}-\d{2}$/) && trimmed.startsWith('2000-01-01'))
-  ) {
-    return true;
-  }
-
-  if (/^v[XxYyZz]\.([XxYyZz]|\d+)\.([XxYyZz]|\d+)$/i.test(trimmed)) {
-    return true;
-  }
-
-  if (/^(SA|CVE|CWE)-[Xx]{2,}$/i.test(trimmed)) {
-    return true;
-  }
-
-  if (trimmed.includes('example.com') || trimmed.includes('example.org')) {
-    return true;
-  }
-
-  if (
-    /^[a-f0-9]{6,8}$/i.test(trimmed) &&
-    (trimmed.toLowerCase().startsWith('def') ||
-      trimmed.toLowerCase().startsWith('abc') ||
-      trimmed.toLowerCase() === 'commit_sha')
-  ) {
-    return true;
-  }
-
-  const linkMatch = trimmed.match(/^\[([^\]]+)\]\(([^)]+)\)$/);
-  if (linkMatch) {
-    const linkText = linkMatch[1].trim();
-    const linkUrl = linkMatch[2].trim();
-
-    const placeholderTexts = [
-      'username',
-      'XXX',
-      'commit_sha',
-      'commit',
-      'sha',
-      '研究者名称',
-      '开发者名称',
-      '研究机构/公司',
-      '研究者',
-      '机构',
-      '公司',
-      '开发者',
-      'vX.X.X',
-      'vX.Y.Z',
-      'SA-XXXX',
-      'def5678',
-      'abc1234',
-    ];
-
-    const normalizedLinkText = linkText.toLowerCase();
-    if (
-      placeholderTexts.some(placeholder => {
-        const normalizedPlaceholder = placeholder.toLowerCase();
-        return (
-          normalizedLinkText === normalizedPlaceholder ||
-          normalizedLinkText === '@' + normalizedPlaceholder ||
-          normalizedLinkText === '#' + normalizedPlaceholder ||
-          normalizedLinkText.includes(normalizedPlaceholder)
-        );
-      })
-    ) {
-      return true;
-    }
-
-    const normalizedUrl = linkUrl.toLowerCase();
-    if (
-      normalizedUrl.includes('/username') ||
-      normalizedUrl.includes('/xxx') ||
-      normalizedUrl.includes('/commit_sha') ||
-      normalizedUrl.includes('/commit/commit') ||
-      normalizedUrl.includes('/pull/xxx') ||
-      normalizedUrl.includes('/org/repo') ||
-      normalizedUrl.includes('example.com') ||
-      normalizedUrl.includes('example.org')
-    ) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
 // 渲染元数据HTML（仅渲染前几个关键元数据，单行显示）
 function renderMetadataHtml(metadata: StageMetadata | undefined, maxItems: number = 5): string {
   if (!metadata || metadata.items.length === 0) {
@@ -694,9 +559,10 @@ function renderMetadataHtml(metadata: StageMetadata | undefined, maxItems: numbe
 
   displayItems.forEach((item, index) => {
     // 第一个元数据项添加特殊类名，确保其完整显示
-    const itemClass = `metadata-item metadata-${item.type}-item${index === 0 ? ' metadata-item-first' : ''}`;
+    const itemClass = `metadata-item metadata-${item.type}-item metadata-type-${item.fieldType}${item.error ? ' metadata-invalid' : ''}${index === 0 ? ' metadata-item-first' : ''}`;
+    const titleAttr = item.error ? ` title="${escapeHtml(item.error)}"` : '';
 
-    html += `<div class="${itemClass}">`;
+    html += `<div class="${itemClass}"${titleAttr}>`;
 
     if (item.icon) {
       html += `<span class="metadata-icon">${item.icon}</span>`;
@@ -704,8 +570,16 @@ function renderMetadataHtml(metadata: StageMetadata | undefined, maxItems: numbe
 
     html += `<span class="metadata-label">${escapeHtml(item.label)}</span>`;
 
-    // 渲染值（支持混合格式的 Markdown 链接）
-    html += renderValueWithMarkdownLinks(item.value);
+    // 按字段类型渲染值（CWE 名称、短 SHA、严重程度标签等），不合法的值按原文显示并标记
+    html += renderFieldValue(
+      item.fieldType,
+      item.value,
+      item.normalized ?? item.value,
+      item.error ?? null
+    );
+    if (item.error) {
+      html += `<span class="metadata-invalid-mark" aria-label="${escapeHtml(item.error)}">⚠</span>`;
+    }
 
     html += `</div>`;
   });
@@ -750,15 +624,33 @@ function formatDateTime(timestamp: number): string {
   return `${year}年${month}月${day}日 (周${weekday})`;
 }
 
+// 时间轴排序方式：document 保持文档顺序，chronological 按时间先后排列
+export type TimelineOrder = 'document' | 'chronological';
+
+export interface LifecycleViewOptions {
+  order?: TimelineOrder;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 时间轴上的事件：阶段中的每个日期字段（如上报时间、响应时间）
+export interface TimelineEvent {
+  stage: LifecycleStage;
+  info: TimeInfo & { timestamp: number };
+  gapDays: number | null; // 距轴上前一个事件的天数（仅按时间排序时计算）
+}
+
 // 时间节点接口
-interface TimeNode {
+export interface TimeNode {
   timestamp: number | null;
   dateLabel: string;
+  gapDays: number | null; // 节点第一个事件距轴上前一个事件的天数（仅按时间排序时计算）
   stages: Array<{
     stage: LifecycleStage;
     timeInfo: TimeInfo[];
     primaryTimestamp: number | null;
   }>;
+  events: TimelineEvent[]; // 节点内所有阶段的日期字段，按时间先后排列
 }
 
 function renderTimelineMarkerHtml(timeNode: TimeNode, isBasicInfoOnly: boolean): string {
@@ -776,14 +668,60 @@ function renderTimelineMarkerHtml(timeNode: TimeNode, isBasicInfoOnly: boolean):
   return '';
 }
 
-// 按时间分组阶段（保持原始顺序，不进行时间排序）
-function groupStagesByTime(stages: LifecycleStage[]): TimeNode[] {
+// 两个相邻时间节点之间经过的时间
+function renderTimelineGapHtml(timeNode: TimeNode): string {
+  if (timeNode.gapDays === null) {
+    return '';
+  }
+  const text = timeNode.gapDays === 0 ? '同一天' : `+${timeNode.gapDays} 天`;
+  return `<div class="timeline-gap" title="距上一个时间节点">⏳ ${text}</div>`;
+}
+
+// 时间节点中的每个日期字段都是轴上的一个事件，阶段卡片仍按主时间分组
+function renderTimelineEventsHtml(timeNode: TimeNode, stages: LifecycleStage[]): string {
+  if (timeNode.events.length === 0) {
+    return '';
+  }
+
+  let html = '<ol class="timeline-events">';
+  timeNode.events.forEach(({ stage, info, gapDays }) => {
+    html += '<li>';
+    html += `<button class="timeline-event" type="button" data-report-index="${stages.indexOf(stage)}" data-line="${info.line}" title="${escapeHtml(`${formatDateTime(info.timestamp)}，定位到「${stage.title}」`)}">`;
+    html += '<span class="timeline-event-dot"></span>';
+    html += `<span class="timeline-event-date">${escapeHtml(info.value)}</span>`;
+    html += `<span class="timeline-event-label">${escapeHtml(info.label)}</span>`;
+    html += `<span class="timeline-event-stage">${escapeHtml(stage.title)}</span>`;
+    if (gapDays !== null && gapDays > 0) {
+      html += `<span class="timeline-event-offset" title="距上一个事件">+${gapDays} 天</span>`;
+    }
+    html += '</button></li>';
+  });
+  html += '</ol>';
+  return html;
+}
+
+// 按时间分组阶段；document 模式保持原始顺序，chronological 模式按时间排序
+// 按时间排序时，未指定时间的阶段跟随文档中前一个阶段，位于最前面的保持在最前
+export function groupStagesByTime(
+  stages: LifecycleStage[],
+  order: TimelineOrder = 'document'
+): TimeNode[] {
   const timeMap = new Map<number | string, TimeNode>();
   const nodeOrder: Array<number | string> = []; // 记录节点的出现顺序
 
-  stages.forEach(stage => {
-    const primaryTimestamp = getPrimaryTimestamp(stage);
-    const timeInfo = extractTimeInfo(stage.content);
+  let entries = stages.map(stage => ({ stage, primaryTimestamp: getPrimaryTimestamp(stage) }));
+  if (order === 'chronological') {
+    let previous = -Infinity;
+    const keyed = entries.map(entry => {
+      previous = entry.primaryTimestamp ?? previous;
+      return { entry, sortKey: previous };
+    });
+    // Array.prototype.sort 是稳定排序，同一时间保持文档顺序
+    entries = keyed.sort((a, b) => a.sortKey - b.sortKey).map(item => item.entry);
+  }
+
+  entries.forEach(({ stage, primaryTimestamp }) => {
+    const timeInfo = extractTimeInfo(stage);
 
     // 使用时间戳作为key，如果没有时间戳则使用特殊key
     const key = primaryTimestamp ?? `no-time-${stage.stageNum ?? 'unknown'}`;
@@ -799,32 +737,233 @@ function groupStagesByTime(stages: LifecycleStage[]): TimeNode[] {
       timeMap.set(key, {
         timestamp: primaryTimestamp,
         dateLabel,
+        gapDays: null,
         stages: [],
+        events: [],
       });
 
       // 记录节点的出现顺序
       nodeOrder.push(key);
     }
 
-    timeMap.get(key)!.stages.push({
+    const node = timeMap.get(key)!;
+    node.stages.push({
       stage,
       timeInfo,
       primaryTimestamp,
     });
+    timeInfo.forEach(info => {
+      if (info.timestamp !== null) {
+        node.events.push({ stage, info: { ...info, timestamp: info.timestamp }, gapDays: null });
+      }
+    });
   });
 
-  // 按照原始顺序构建结果数组（不进行时间排序）
   const timeNodes: TimeNode[] = nodeOrder.map(key => timeMap.get(key)!);
+  timeNodes.forEach(node => node.events.sort((a, b) => a.info.timestamp - b.info.timestamp));
+
+  // 间隔按轴上所有事件的时间先后计算，节点的间隔取其第一个事件的间隔
+  if (order === 'chronological') {
+    let previousTimestamp: number | null = null;
+    timeNodes
+      .flatMap(node => node.events)
+      .sort((a, b) => a.info.timestamp - b.info.timestamp)
+      .forEach(event => {
+        if (previousTimestamp !== null) {
+          event.gapDays = Math.round((event.info.timestamp - previousTimestamp) / DAY_MS);
+        }
+        previousTimestamp = event.info.timestamp;
+      });
+    timeNodes.forEach(node => {
+      node.gapDays = node.events[0]?.gapDays ?? null;
+    });
+  }
 
   return timeNodes;
 }
 
-export function updateLifecycleView(markdown: string, container: HTMLElement): boolean {
+const SCHEMA_STYLE_ID = 'lifecycle-schema-style';
+let appliedSchemaStyle = '';
+
+// 将 schema 的阶段颜色写入页面样式（覆盖 --gradient-stage-N 等变量）
+export function applySchemaStyles(schema: LifecycleSchema): void {
+  const css = buildSchemaStyleSheet(schema);
+  if (css === appliedSchemaStyle) {
+    return;
+  }
+  let style = document.getElementById(SCHEMA_STYLE_ID);
+  if (!style) {
+    style = document.createElement('style');
+    style.id = SCHEMA_STYLE_ID;
+    document.head.appendChild(style);
+  }
+  style.textContent = css;
+  appliedSchemaStyle = css;
+}
+
+// 渲染报告头部面板（front matter 中的变更记录、标签等）
+function renderFrontMatterPanelHtml(result: FrontMatterResult): string {
+  const { block, data, errors } = result;
+  if (!block) {
+    return '';
+  }
+
+  const hasMeta =
+    data.tags.length > 0 ||
+    data.severity ||
+    data.owners.length > 0 ||
+    data.templateVersion ||
+    data.schema ||
+    data.completion;
+  if (!hasMeta && data.changelog.length === 0 && errors.length === 0) {
+    return '';
+  }
+
+  let html = '<div class="report-header-panel">';
+
+  if (hasMeta) {
+    html += '<div class="report-header-meta">';
+    if (data.severity) {
+      html += `<span class="report-header-chip report-severity" data-severity="${escapeHtml(data.severity.toLowerCase())}">${escapeHtml(data.severity)}</span>`;
+    }
+    data.tags.forEach(tag => {
+      html += `<span class="report-header-chip report-tag">#${escapeHtml(tag)}</span>`;
+    });
+    if (data.owners.length > 0) {
+      html += `<span class="report-header-owners">👤 ${data.owners.map(owner => escapeHtml(owner)).join('、')}</span>`;
+    }
+    if (data.templateVersion) {
+      html += `<span class="report-header-template">模板 ${escapeHtml(data.templateVersion)}</span>`;
+    }
+    if (data.schema) {
+      const schemaId = data.schema;
+      const schema = getAvailableSchemas().find(item => item.id === schemaId);
+      html += schema
+        ? `<span class="report-header-schema">🧭 ${escapeHtml(schema.name)}</span>`
+        : `<span class="report-header-schema invalid">🧭 未定义的生命周期 ${escapeHtml(schemaId)}，已使用默认</span>`;
+    }
+    if (data.completion) {
+      html += '<span class="report-header-scoring">📊 自定义完成度规则</span>';
+    }
+    html += '</div>';
+  }
+
+  if (data.changelog.length > 0) {
+    html += '<div class="report-changelog">';
+    html += '<div class="report-changelog-title">变更记录</div>';
+    html += '<ul class="report-changelog-list">';
+    data.changelog.forEach(entry => {
+      html += '<li class="report-changelog-item">';
+      html += `<span class="report-changelog-version">${escapeHtml(entry.version)}</span>`;
+      if (entry.date) {
+        html += `<span class="report-changelog-date">${escapeHtml(entry.date)}</span>`;
+      }
+      html += `<span class="report-changelog-desc">${escapeHtml(entry.description)}</span>`;
+      html += '</li>';
+    });
+    html += '</ul>';
+    html += '</div>';
+  }
+
+  if (errors.length > 0) {
+    html += '<div class="report-header-errors">';
+    errors.forEach(error => {
+      html += `<div class="report-header-error">front matter 第 ${error.line} 行：${escapeHtml(error.message)}</div>`;
+    });
+    html += '</div>';
+  }
+
+  html += '</div>';
+  return html;
+}
+
+// 渲染阶段内的时间顺序冲突提示
+function renderChronologyHtml(violations: ChronologyViolation[]): string {
+  if (violations.length === 0) {
+    return '';
+  }
+  const items = violations
+    .map(
+      item =>
+        `<li class="stage-chronology-item" data-line="${item.later.line}">${escapeHtml(item.message)}</li>`
+    )
+    .join('');
+  return `<div class="stage-chronology" title="时间顺序与生命周期不一致"><span class="stage-chronology-icon">⏱</span><ul class="stage-chronology-list">${items}</ul></div>`;
+}
+
+function renderSyncButton(
+  item: BasicInfoSyncItem,
+  direction: SyncDirection,
+  label: string
+): string {
+  return `<button class="stage-sync-btn" type="button" data-sync-field="${item.mapping.field}" data-sync-direction="${direction}">${label}</button>`;
+}
+
+// 渲染基本信息与阶段元数据不一致的提示及同步按钮
+function renderSyncHtml(items: BasicInfoSyncItem[]): string {
+  const notices = items
+    .filter(item => item.status !== 'match')
+    .map(item => {
+      const basicLabel = `基本信息 ${escapeHtml(item.basicInfo.label)}`;
+      const stageLabel = escapeHtml(item.stage?.label ?? item.mapping.label);
+      if (item.status === 'mismatch') {
+        return `<li class="stage-sync-item">${basicLabel}（${item.basicInfo.date}）与${stageLabel}（${item.stage?.date}）不一致 ${renderSyncButton(item, 'to-stage', '以基本信息为准')}${renderSyncButton(item, 'to-basic-info', '以阶段为准')}</li>`;
+      }
+      if (item.status === 'missing-basic-info') {
+        return `<li class="stage-sync-item">${basicLabel} 未填写（${stageLabel}：${item.stage?.date}） ${renderSyncButton(item, 'to-basic-info', '同步到基本信息')}</li>`;
+      }
+      return `<li class="stage-sync-item">${stageLabel} 未填写（${basicLabel}：${item.basicInfo.date}） ${renderSyncButton(item, 'to-stage', '同步到阶段')}</li>`;
+    })
+    .join('');
+  return notices
+    ? `<div class="stage-sync"><span class="stage-sync-icon">🔗</span><ul class="stage-sync-list">${notices}</ul></div>`
+    : '';
+}
+
+// 不适用阶段的徽标，显示在阶段标题之后
+function renderNotApplicableBadgeHtml(stage: LifecycleStage): string {
+  if (!stage.notApplicable) {
+    return '';
+  }
+  const { reason } = stage.notApplicable;
+  const title = reason ? `不适用：${reason}` : '该阶段已标记为不适用';
+  return `<span class="stage-na-badge" title="${escapeHtml(title)}">N/A</span>`;
+}
+
+// 阶段提示区域（时间顺序、基本信息同步），显示在阶段头部下方
+function renderStageNoticesHtml(
+  report: ReportDocument,
+  reportIndex: number,
+  violations: ChronologyViolation[],
+  syncItems: BasicInfoSyncItem[]
+): string {
+  const isBasicInfo = report.stages[reportIndex]?.role === 'basic-info';
+  const html =
+    renderChronologyHtml(getStageViolations(violations, reportIndex)) +
+    renderSyncHtml(
+      syncItems.filter(item =>
+        isBasicInfo ? item.basicInfoIndex === reportIndex : item.stageIndex === reportIndex
+      )
+    );
+  return html ? `<div class="stage-notices">${html}</div>` : '';
+}
+
+// 增量更新生命周期视图；传入 update 时只重新渲染 changedStages 中的阶段内容
+export function updateLifecycleView(
+  markdown: string,
+  container: HTMLElement,
+  update?: ReportUpdate,
+  options: LifecycleViewOptions = {}
+): boolean {
   if (!markdown.trim()) {
     return false;
   }
 
-  const stages = parseLifecycleStages(markdown);
+  const report = update?.report ?? buildReportDocument(markdown);
+  const stages = report.stages;
+  const changedStages = update?.changedStages ? new Set(update.changedStages) : null;
+  const violations = checkChronology(report);
+  const syncItems = collectBasicInfoSync(report);
 
   if (stages.length === 0) {
     return false;
@@ -836,13 +975,26 @@ export function updateLifecycleView(markdown: string, container: HTMLElement): b
     return false;
   }
 
-  const title = extractTitle(markdown);
+  const title = report.title;
   const titleEl = container.querySelector('.lifecycle-title');
   if (titleEl) {
     titleEl.textContent = title;
   }
 
-  const timeNodes = groupStagesByTime(stages);
+  // 更新头部面板（front matter）
+  const panelHtml = renderFrontMatterPanelHtml(parseFrontMatter(markdown));
+  const existingPanel = container.querySelector('.report-header-panel');
+  if (existingPanel) {
+    if (panelHtml) {
+      existingPanel.outerHTML = panelHtml;
+    } else {
+      existingPanel.remove();
+    }
+  } else if (panelHtml && titleEl) {
+    titleEl.insertAdjacentHTML('beforebegin', panelHtml);
+  }
+
+  const timeNodes = groupStagesByTime(stages, options.order);
   const nodeGroups = container.querySelectorAll('.timeline-node-group');
   if (nodeGroups.length !== timeNodes.length) {
     return false;
@@ -855,7 +1007,7 @@ export function updateLifecycleView(markdown: string, container: HTMLElement): b
       return false;
     }
 
-    const isBasicInfoOnly = timeNode.stages.every(s => s.stage.stageNum === 1);
+    const isBasicInfoOnly = timeNode.stages.every(s => s.stage.role === 'basic-info');
     nodeGroup.setAttribute('data-timestamp', timeNode.timestamp ? String(timeNode.timestamp) : '');
 
     const marker = nodeGroup.querySelector('.timeline-marker');
@@ -864,6 +1016,14 @@ export function updateLifecycleView(markdown: string, container: HTMLElement): b
     }
     marker.innerHTML = renderTimelineMarkerHtml(timeNode, isBasicInfoOnly);
 
+    const contentArea = nodeGroup.querySelector('.timeline-content-area');
+    contentArea?.querySelector('.timeline-gap')?.remove();
+    contentArea?.querySelector('.timeline-events')?.remove();
+    contentArea?.insertAdjacentHTML(
+      'afterbegin',
+      renderTimelineGapHtml(timeNode) + renderTimelineEventsHtml(timeNode, stages)
+    );
+
     const stageElements = nodeGroup.querySelectorAll('.lifecycle-stage');
     if (stageElements.length !== timeNode.stages.length) {
       return false;
@@ -878,8 +1038,17 @@ export function updateLifecycleView(markdown: string, container: HTMLElement): b
         return false;
       }
 
+      // 阶段在时间轴中的位置可能因时间变化而移动，此时该元素也需要重新渲染
+      const reportIndex = stages.indexOf(stage);
+      const isStageChanged =
+        !changedStages ||
+        changedStages.has(reportIndex) ||
+        stageElement.getAttribute('data-report-index') !== String(reportIndex);
+      stageElement.setAttribute('data-report-index', String(reportIndex));
+
       const stageNum = stage.stageNum ?? '?';
       stageElement.setAttribute('data-stage', String(stageNum));
+      stageElement.classList.toggle('not-applicable', Boolean(stage.notApplicable));
 
       const badge = stageElement.querySelector('.stage-number-badge');
       if (badge) {
@@ -890,6 +1059,11 @@ export function updateLifecycleView(markdown: string, container: HTMLElement): b
       const headerTitle = stageElement.querySelector('.stage-header-title');
       if (headerTitle) {
         headerTitle.textContent = stage.title;
+        stageElement.querySelector('.stage-na-badge')?.remove();
+        const badgeHtml = renderNotApplicableBadgeHtml(stage);
+        if (badgeHtml) {
+          headerTitle.insertAdjacentHTML('afterend', badgeHtml);
+        }
       }
 
       const anchorBtn = stageElement.querySelector<HTMLButtonElement>('.stage-anchor-btn');
@@ -911,17 +1085,36 @@ export function updateLifecycleView(markdown: string, container: HTMLElement): b
         anchorBtn.dataset.line = '';
       }
 
+      // 提示涉及多个阶段（时间顺序、基本信息同步），每次都需要刷新
+      const noticesHtml = renderStageNoticesHtml(report, reportIndex, violations, syncItems);
+      const existingNotices = stageElement.querySelector('.stage-notices');
+      if (existingNotices) {
+        if (noticesHtml) {
+          existingNotices.outerHTML = noticesHtml;
+        } else {
+          existingNotices.remove();
+        }
+      } else if (noticesHtml) {
+        stageElement.querySelector('.stage-header')?.insertAdjacentHTML('afterend', noticesHtml);
+      }
+
       const body = stageElement.querySelector<HTMLElement>('.stage-body');
       if (!body) {
         return false;
       }
 
+      // 未变化的阶段只需刷新标题锚点的行号
+      if (!isStageChanged) {
+        applyHeadingAnchors(body, stage.headings);
+        continue;
+      }
+
       // 更新元数据区域
       // 基本信息阶段不显示元数据
       const stageCard = stageElement.querySelector('.stage-card');
       if (stageCard) {
         const existingMetadata = stageCard.querySelector('.stage-metadata');
-        if (stage.metadata && stage.metadata.items.length > 0 && stageNum !== 1) {
+        if (stage.metadata && stage.metadata.items.length > 0 && stage.role !== 'basic-info') {
           const metadataHtml = renderMetadataHtml(stage.metadata);
           if (existingMetadata) {
             // 更新现有元数据
@@ -984,41 +1177,35 @@ export function updateLifecycleView(markdown: string, container: HTMLElement): b
 }
 
 // 渲染生命周期视图
-export function renderLifecycleView(markdown: string, container: HTMLElement): void {
+export function renderLifecycleView(
+  markdown: string,
+  container: HTMLElement,
+  options: LifecycleViewOptions = {}
+): void {
   if (!markdown.trim()) {
     container.innerHTML =
       '<div class="lifecycle-container"><p style="text-align: center; color: #999; padding: 40px;">请在左侧输入 Markdown 内容...</p></div>';
     return;
   }
 
-  const title = extractTitle(markdown);
-  let stages = parseLifecycleStages(markdown);
+  const report = buildReportDocument(markdown);
+  const title = report.title;
+  const stages = report.stages;
   let timeNodes: TimeNode[] = [];
+  const violations = checkChronology(report);
+  const syncItems = collectBasicInfoSync(report);
 
   let html = '<div class="lifecycle-container">';
+  html += renderFrontMatterPanelHtml(parseFrontMatter(markdown));
   html += `<h1 class="lifecycle-title">${escapeHtml(title)}</h1>`;
 
   if (stages.length === 0) {
     // 如果没有检测到标准阶段，直接渲染整个内容（排除 front matter 和标题）
-    const lines = markdown.split('\n');
-    let inFrontMatter = false;
-    let skipFirstH1 = true;
-    const contentLines: string[] = [];
-
-    for (const line of lines) {
-      if (line.match(/^---\s*$/)) {
-        inFrontMatter = !inFrontMatter;
-        continue;
-      }
-      if (inFrontMatter) continue;
-      if (skipFirstH1 && line.match(/^#\s+/)) {
-        skipFirstH1 = false;
-        continue;
-      }
-      contentLines.push(line);
-    }
-
-    const content = contentLines.join('\n').trim();
+    const content = markdown
+      .split('\n')
+      .filter((_, index) => index + 1 >= report.bodyStartLine && index + 1 !== report.titleLine)
+      .join('\n')
+      .trim();
     html += '<div class="lifecycle-stages">';
     if (content) {
       html += `<div class="stage-content">${renderMarkdown(content)}</div>`;
@@ -1029,7 +1216,7 @@ export function renderLifecycleView(markdown: string, container: HTMLElement): v
     html += '</div>';
   } else {
     // 按时间分组阶段
-    timeNodes = groupStagesByTime(stages);
+    timeNodes = groupStagesByTime(stages, options.order);
 
     html += '<div class="timeline-wrapper">';
     html += '<div class="timeline-container">';
@@ -1041,32 +1228,22 @@ export function renderLifecycleView(markdown: string, container: HTMLElement): v
     html += '<div class="timeline-content-wrapper">';
 
     timeNodes.forEach((timeNode, nodeIndex) => {
-      const hasTimestamp = timeNode.timestamp !== null;
-      const dateStr = hasTimestamp && timeNode.timestamp ? formatDate(timeNode.timestamp) : '';
-
-      // 检查是否只包含基本信息（stageNum === 1）
-      const isBasicInfoOnly = timeNode.stages.every(s => s.stage.stageNum === 1);
+      // 检查是否只包含基本信息阶段
+      const isBasicInfoOnly = timeNode.stages.every(s => s.stage.role === 'basic-info');
 
       // 时间节点组
       html += `<div class="timeline-node-group" data-timestamp="${timeNode.timestamp ?? ''}" data-index="${nodeIndex}">`;
 
       // 时间轴标记（左侧）
+      // 只有非基本信息节点才显示"未指定"；基本信息节点如果没有时间戳，不显示任何标记
       html += '<div class="timeline-marker">';
-      if (hasTimestamp && timeNode.timestamp) {
-        html += `<div class="timeline-date-label">${dateStr}</div>`;
-      } else if (!isBasicInfoOnly) {
-        // 只有非基本信息节点才显示"未指定"，竖向1列显示
-        const unknownChars = '未指定'
-          .split('')
-          .map(char => `<span class="unknown-char">${escapeHtml(char)}</span>`)
-          .join('');
-        html += `<div class="timeline-date-label timeline-date-unknown"><div class="unknown-column">${unknownChars}</div></div>`;
-      }
-      // 基本信息节点如果没有时间戳，不显示任何标记
+      html += renderTimelineMarkerHtml(timeNode, isBasicInfoOnly);
       html += '</div>';
 
       // 内容区域（右侧）
       html += '<div class="timeline-content-area">';
+      html += renderTimelineGapHtml(timeNode);
+      html += renderTimelineEventsHtml(timeNode, stages);
 
       // 该时间点的所有阶段
       html += '<div class="timeline-stages-container">';
@@ -1077,7 +1254,8 @@ export function renderLifecycleView(markdown: string, container: HTMLElement): v
         const summary = extractSummary(content);
         const lineAttr = stage.startLine ? ` data-line="${stage.startLine}"` : '';
 
-        html += `<div class="lifecycle-stage collapsed" data-stage="${stageNum}" data-node-index="${nodeIndex}" data-stage-index="${stageIndex}">`;
+        const stageClass = stage.notApplicable ? ' not-applicable' : '';
+        html += `<div class="lifecycle-stage collapsed${stageClass}" data-stage="${stageNum}" data-node-index="${nodeIndex}" data-stage-index="${stageIndex}" data-report-index="${stages.indexOf(stage)}">`;
 
         html += '<div class="stage-card">';
 
@@ -1086,18 +1264,22 @@ export function renderLifecycleView(markdown: string, container: HTMLElement): v
         html += '<div class="stage-header-left">';
         html += `<div class="stage-number-badge" data-stage="${stageNum}">${stageNum}</div>`;
         html += `<span class="stage-header-title">${escapeHtml(stage.title)}</span>`;
+        html += renderNotApplicableBadgeHtml(stage);
         html += `<button class="stage-anchor-btn" type="button"${lineAttr} title="跳转到编辑器对应位置">#</button>`;
         html += '</div>';
 
         // 元数据区域（显示在标题右侧）
         // 基本信息阶段不显示元数据
-        if (stage.metadata && stageNum !== 1) {
+        if (stage.metadata && stage.role !== 'basic-info') {
           html += renderMetadataHtml(stage.metadata);
         }
 
         html += '<span class="stage-toggle-icon">▼</span>';
         html += '</div>';
 
+        // 时间顺序冲突、基本信息同步提示（折叠时也显示）
+        html += renderStageNoticesHtml(report, stages.indexOf(stage), violations, syncItems);
+
         // 摘要（仅在折叠时显示）
         if (summary) {
           html += `<div class="stage-summary">${escapeHtml(summary)}</div>`;
@@ -1138,63 +1320,53 @@ interface ExploitabilitySection {
   content: string;
 }
 
-// 提取漏洞利用阶段（第9节）的内容
-function extractExploitabilityContent(markdown: string): {
+// 按报告语言显示 schema 中的阶段名称
+function getRoleStageLabel(report: ReportDocument, role: StageRole): string | null {
+  const definition = getStageByRole(report.schema, role);
+  return definition ? getStageLabel(definition, report.schema, report.language) : null;
+}
+
+// 描述 schema 中承担某一用途的阶段，如 第9节"漏洞利用"
+function describeRoleStages(report: ReportDocument, role: StageRole): string {
+  const names = report.schema.stages
+    .filter(stage => stage.role === role)
+    .map(
+      stage =>
+        `第${stage.number}节"${escapeHtml(getStageLabel(stage, report.schema, report.language))}"`
+    );
+  if (names.length <= 1) {
+    return names[0] ?? '相应阶段';
+  }
+  return `${names.slice(0, -1).join('、')}或${names[names.length - 1]}`;
+}
+
+// 提取 schema 中可利用性阶段（默认为第9节"漏洞利用"）的内容
+function extractExploitabilityContent(report: ReportDocument): {
   title: string;
   sections: ExploitabilitySection[];
 } {
-  const stages = parseLifecycleStages(markdown);
-  const exploitStage = stages.find(stage => stage.stageNum === 9);
+  const exploitStage = report.stages.find(stage => stage.role === 'exploitability');
 
   if (!exploitStage) {
     return {
-      title: '漏洞利用',
+      title: getRoleStageLabel(report, 'exploitability') ?? '漏洞利用',
       sections: [],
     };
   }
 
-  const sections: ExploitabilitySection[] = [];
-  const lines = exploitStage.content.split('\n');
-  let currentSection: { title: string; content: string[] } | null = null;
-
-  for (const line of lines) {
-    // 检测三级标题（###）
-    const h3Match = line.match(/^###\s+(.+)$/);
-    if (h3Match) {
-      // 保存前一个子节
-      if (currentSection) {
-        sections.push({
-          title: currentSection.title,
-          content: currentSection.content.join('\n').trim(),
-        });
-      }
-      // 开始新子节
-      currentSection = {
-        title: h3Match[1].trim(),
-        content: [],
-      };
-      continue;
-    }
-
-    // 收集内容
-    if (currentSection) {
-      currentSection.content.push(line);
-    }
-  }
-
-  // 保存最后一个子节
-  if (currentSection) {
-    sections.push({
-      title: currentSection.title,
-      content: currentSection.content.join('\n').trim(),
-    });
-  }
+  // 以三级标题划分子节（内容包含其下级标题）
+  const sections: ExploitabilitySection[] = exploitStage.subsections
+    .filter(subsection => subsection.level === 3)
+    .map(subsection => ({
+      title: subsection.title,
+      content: subsection.sectionContent,
+    }));
 
   // 如果没有找到任何三级标题，将整个内容作为一个部分显示
-  if (sections.length === 0 && exploitStage.content.trim()) {
+  if (sections.length === 0 && exploitStage.content) {
     sections.push({
       title: '漏洞利用内容',
-      content: exploitStage.content.trim(),
+      content: exploitStage.content,
     });
   }
 
@@ -1204,6 +1376,84 @@ function extractExploitabilityContent(markdown: string): {
   };
 }
 
+// 渲染 CVSS 评分面板（按指标分组展示计算结果）
+function renderCvssPanelHtml(basicInfo: BasicInfo | null): string {
+  const row = basicInfo?.rows.find(r => r.field === 'cvss');
+  if (!row) {
+    return '';
+  }
+
+  const cvss = basicInfo?.cvss;
+  let html = '<div class="cvss-panel">';
+  html += '<div class="cvss-panel-header">';
+  html += '<h3 class="cvss-panel-title">CVSS 评分</h3>';
+
+  if (!cvss) {
+    html += CVSS_CALCULATOR_BUTTON_HTML;
+    html += '</div>';
+    html += '<div class="cvss-panel-message">CVSS 尚未填写，可使用计算器生成向量</div>';
+    html += '</div>';
+    return html;
+  }
+
+  const check = checkCvss(cvss.score, cvss.vector);
+  const data = check.result?.data;
+  if (data) {
+    html += `<span class="cvss-severity-chip" data-severity="${data.severity.toLowerCase()}">${data.score.toFixed(1)} ${CVSS_SEVERITY_LABELS[data.severity]}</span>`;
+  }
+  html += CVSS_CALCULATOR_BUTTON_HTML;
+  html += '</div>';
+
+  if (!check.result) {
+    html += `<div class="cvss-panel-message">未找到 CVSS 向量：${escapeHtml(cvss.raw)}</div>`;
+    html += '</div>';
+    return html;
+  }
+
+  if (!check.result.ok || !data) {
+    html += `<div class="cvss-panel-message cvss-panel-error">向量无效：${escapeHtml(check.result.error ?? '')}</div>`;
+    html += '</div>';
+    return html;
+  }
+
+  html += `<code class="cvss-vector">${escapeHtml(data.vector)}</code>`;
+
+  if (check.mismatch && check.declaredScore !== null) {
+    html += `<div class="cvss-panel-message cvss-panel-error">填写的分数 ${check.declaredScore.toFixed(1)} 与向量计算结果 ${data.score.toFixed(1)} 不一致</div>`;
+  }
+
+  html += '<div class="cvss-scores">';
+  html += `<div class="cvss-score-item"><span class="cvss-score-label">基础分数</span><span class="cvss-score-value">${data.baseScore.toFixed(1)}</span></div>`;
+  if (data.temporalScore !== null) {
+    const label = data.version === '3.1' ? '时间分数' : '威胁分数';
+    html += `<div class="cvss-score-item"><span class="cvss-score-label">${label}</span><span class="cvss-score-value">${data.temporalScore.toFixed(1)}</span></div>`;
+  }
+  if (data.environmentalScore !== null) {
+    html += `<div class="cvss-score-item"><span class="cvss-score-label">环境分数</span><span class="cvss-score-value">${data.environmentalScore.toFixed(1)}</span></div>`;
+  }
+  html += `<div class="cvss-score-item"><span class="cvss-score-label">版本</span><span class="cvss-score-value">${data.version} · ${escapeHtml(data.nomenclature)}</span></div>`;
+  html += '</div>';
+
+  const groups: CvssMetricGroup[] = ['base', 'temporal', 'threat', 'environmental', 'supplemental'];
+  html += '<table class="cvss-metrics-table"><tbody>';
+  groups.forEach(group => {
+    const metrics = data.metrics.filter(m => m.group === group && m.value !== 'X');
+    if (metrics.length === 0) return;
+    html += `<tr class="cvss-metric-group"><th colspan="3">${CVSS_METRIC_GROUP_LABELS[group]}</th></tr>`;
+    metrics.forEach(m => {
+      html += '<tr>';
+      html += `<td class="cvss-metric-name">${escapeHtml(m.name)}</td>`;
+      html += `<td class="cvss-metric-key"><code>${m.key}:${escapeHtml(m.value)}</code></td>`;
+      html += `<td class="cvss-metric-value">${escapeHtml(m.valueLabel)}</td>`;
+      html += '</tr>';
+    });
+  });
+  html += '</tbody></table>';
+
+  html += '</div>';
+  return html;
+}
+
 // 渲染可利用性视图
 export function renderExploitabilityView(markdown: string, container: HTMLElement): void {
   if (!markdown.trim()) {
@@ -1212,17 +1462,18 @@ export function renderExploitabilityView(markdown: string, container: HTMLElemen
     return;
   }
 
-  const docTitle = extractTitle(markdown);
-  const { title, sections } = extractExploitabilityContent(markdown);
+  const report = buildReportDocument(markdown);
+  const docTitle = report.title;
+  const { title, sections } = extractExploitabilityContent(report);
 
   let html = '<div class="exploitability-container">';
   html += `<h1 class="exploitability-title">${escapeHtml(docTitle)}</h1>`;
   html += `<h2 class="exploitability-main-title">${escapeHtml(title)}</h2>`;
+  html += renderCvssPanelHtml(getBasicInfo(report));
 
   if (sections.length === 0) {
     html += '<div class="exploitability-empty">';
-    html +=
-      '<p style="text-align: center; color: #999; padding: 40px;">未找到漏洞利用相关内容，请确保文档包含第9节"漏洞利用"的内容。</p>';
+    html += `<p style="text-align: center; color: #999; padding: 40px;">未找到漏洞利用相关内容，请确保文档包含${describeRoleStages(report, 'exploitability')}的内容。</p>`;
     html += '</div>';
   } else {
     html += '<div class="exploitability-sections">';
@@ -1251,17 +1502,16 @@ export function renderExploitabilityView(markdown: string, container: HTMLElemen
   container.innerHTML = html;
 }
 
-// 提取漏洞情报阶段（第7节）的内容
-function extractIntelligenceContent(markdown: string): {
+// 提取 schema 中情报阶段（默认为第7节"漏洞情报"）的内容
+function extractIntelligenceContent(report: ReportDocument): {
   title: string;
   content: string;
 } {
-  const stages = parseLifecycleStages(markdown);
-  const intelligenceStage = stages.find(stage => stage.stageNum === 7);
+  const intelligenceStage = report.stages.find(stage => stage.role === 'intelligence');
 
   if (!intelligenceStage) {
     return {
-      title: '漏洞情报',
+      title: getRoleStageLabel(report, 'intelligence') ?? '漏洞情报',
       content: '',
     };
   }
@@ -1272,6 +1522,109 @@ function extractIntelligenceContent(markdown: string): {
   };
 }
 
+function formatDayOffset(days: number): string {
+  if (days === 0) return '同一天';
+  return days > 0 ? `+${days} 天` : `${days} 天`;
+}
+
+function renderIntelligenceDateFieldHtml(field: IntelligenceDateField | null): string {
+  if (!field) {
+    return '<div class="intelligence-compare-value intelligence-compare-missing">未填写</div>';
+  }
+  return `<div class="intelligence-compare-value"><button class="intelligence-line-btn" type="button" data-line="${field.line}" title="跳转到编辑器">${escapeHtml(field.value)}</button></div>`;
+}
+
+// 首次可观测（时间线最早条目）与 "最早可捕获时间"、"捕获时间" 字段的对比
+function renderCaptureComparisonHtml(comparison: CaptureComparison): string {
+  const { firstObservable, earliestCapture, captured } = comparison;
+
+  let html = '<div class="intelligence-compare">';
+  html += '<div class="intelligence-compare-card">';
+  html += '<div class="intelligence-compare-label">首次可观测（时间线最早条目）</div>';
+  if (firstObservable) {
+    html += `<div class="intelligence-compare-value"><button class="intelligence-line-btn" type="button" data-line="${firstObservable.line}" title="跳转到编辑器">${escapeHtml(firstObservable.date)}</button></div>`;
+    html += `<div class="intelligence-compare-note">${renderSourceBadgeHtml(firstObservable)}</div>`;
+  } else {
+    html +=
+      '<div class="intelligence-compare-value intelligence-compare-missing">无可解析的条目</div>';
+  }
+  html += '</div>';
+
+  html += `<div class="intelligence-compare-card" data-status="${comparison.earliestStatus}">`;
+  html += '<div class="intelligence-compare-label">最早可捕获时间</div>';
+  html += renderIntelligenceDateFieldHtml(earliestCapture);
+  if (comparison.earliestStatus === 'ok') {
+    html += '<div class="intelligence-compare-note">✓ 与时间线最早条目一致</div>';
+  } else if (comparison.earliestStatus === 'later' && comparison.earliestOffsetDays !== null) {
+    html += `<div class="intelligence-compare-note">⚠ 晚于时间线最早条目 ${comparison.earliestOffsetDays} 天</div>`;
+  } else if (comparison.earliestStatus === 'earlier' && comparison.earliestOffsetDays !== null) {
+    html += `<div class="intelligence-compare-note">⚠ 早于时间线最早条目 ${-comparison.earliestOffsetDays} 天，时间线中缺少对应记录</div>`;
+  }
+  html += '</div>';
+
+  const lagStatus =
+    comparison.captureLagDays !== null && comparison.captureLagDays < 0 ? 'earlier' : 'ok';
+  html += `<div class="intelligence-compare-card" data-status="${lagStatus}">`;
+  html += '<div class="intelligence-compare-label">实际捕获时间</div>';
+  html += renderIntelligenceDateFieldHtml(captured);
+  if (comparison.captureLagDays !== null) {
+    html +=
+      comparison.captureLagDays < 0
+        ? '<div class="intelligence-compare-note">⚠ 早于首次可观测时间，请检查时间线</div>'
+        : `<div class="intelligence-compare-note">距首次可观测 ${formatDayOffset(comparison.captureLagDays)}</div>`;
+  }
+  html += '</div>';
+  html += '</div>';
+  return html;
+}
+
+function renderSourceBadgeHtml(entry: IntelligenceEntry): string {
+  return `<span class="intelligence-source-badge" data-source="${entry.sourceType}" title="${escapeHtml(INTELLIGENCE_SOURCE_LABELS[entry.sourceType])}">${escapeHtml(entry.source)}</span>`;
+}
+
+function renderIntelligenceTimelineHtml(timeline: IntelligenceTimeline): string {
+  let html = '<div class="intelligence-timeline">';
+  html += '<div class="intelligence-timeline-header">';
+  html += `<h3 class="intelligence-timeline-title">${escapeHtml(timeline.subsection?.title ?? '情报时间线')}</h3>`;
+  html += `<span class="intelligence-timeline-summary">共 ${timeline.entries.length} 条记录</span>`;
+  html += '</div>';
+
+  if (timeline.entries.length === 0) {
+    html += `<p class="intelligence-timeline-empty">${
+      timeline.subsection
+        ? '时间线中没有可识别的条目。可使用表格（时间 | 来源 | 链接 | 说明）或以日期开头的列表项记录情报。'
+        : '未找到情报时间线子章节。'
+    }</p>`;
+  } else {
+    if (timeline.outOfOrder) {
+      html +=
+        '<div class="intelligence-timeline-warning">⚠ 时间线条目未按时间顺序书写，以下已按时间排序</div>';
+    }
+    html += renderCaptureComparisonHtml(timeline.comparison);
+    const first = timeline.comparison.firstObservable?.timestamp ?? null;
+    html += '<ol class="intelligence-entries">';
+    timeline.entries.forEach(entry => {
+      html += `<li class="intelligence-entry" data-source="${entry.sourceType}">`;
+      html += `<button class="intelligence-line-btn intelligence-entry-date" type="button" data-line="${entry.line}" title="跳转到编辑器">${escapeHtml(entry.date)}</button>`;
+      if (entry.timestamp === null) {
+        html += '<span class="intelligence-entry-offset">无法解析日期</span>';
+      } else if (first !== null) {
+        html += `<span class="intelligence-entry-offset">${formatDayOffset(Math.round((entry.timestamp - first) / DAY_MS))}</span>`;
+      }
+      html += renderSourceBadgeHtml(entry);
+      html += `<span class="intelligence-entry-note">${escapeHtml(entry.note)}</span>`;
+      if (entry.url && isSafeUrl(entry.url, 'link', sanitizeMode)) {
+        html += `<a class="intelligence-entry-link" href="${escapeHtml(entry.url)}" target="_blank" rel="noopener noreferrer" title="${escapeHtml(entry.url)}">链接</a>`;
+      }
+      html += '</li>';
+    });
+    html += '</ol>';
+  }
+
+  html += '</div>';
+  return html;
+}
+
 // 渲染情报视图
 export function renderIntelligenceView(markdown: string, container: HTMLElement): void {
   if (!markdown.trim()) {
@@ -1280,8 +1633,9 @@ export function renderIntelligenceView(markdown: string, container: HTMLElement)
     return;
   }
 
-  const docTitle = extractTitle(markdown);
-  const { title, content } = extractIntelligenceContent(markdown);
+  const report = buildReportDocument(markdown);
+  const docTitle = report.title;
+  const { title, content } = extractIntelligenceContent(report);
 
   let html = '<div class="intelligence-container">';
   html += `<h1 class="intelligence-title">${escapeHtml(docTitle)}</h1>`;
@@ -1289,10 +1643,13 @@ export function renderIntelligenceView(markdown: string, container: HTMLElement)
 
   if (!content) {
     html += '<div class="intelligence-empty">';
-    html +=
-      '<p style="text-align: center; color: #999; padding: 40px;">未找到漏洞情报相关内容，请确保文档包含第7节"漏洞情报"的内容。</p>';
+    html += `<p style="text-align: center; color: #999; padding: 40px;">未找到漏洞情报相关内容，请确保文档包含${describeRoleStages(report, 'intelligence')}的内容。</p>`;
     html += '</div>';
   } else {
+    const timeline = parseIntelligenceTimeline(report);
+    if (timeline) {
+      html += renderIntelligenceTimelineHtml(timeline);
+    }
     html += '<div class="intelligence-content">';
     html += `${renderMarkdown(content)}`;
     html += '</div>';
@@ -1302,19 +1659,13 @@ export function renderIntelligenceView(markdown: string, container: HTMLElement)
   container.innerHTML = html;
 }
 
-// 提取漏洞原理相关阶段的内容（第2、3、5节）
-function extractAnalysisContent(markdown: string): Array<{
+// 提取漏洞原理相关阶段的内容（默认为第2、3、5节）
+function extractAnalysisContent(report: ReportDocument): Array<{
   stageNum: number;
   title: string;
   content: string;
 }> {
-  const stages = parseLifecycleStages(markdown);
-  const analysisStages = stages.filter(
-    stage =>
-      stage.stageNum === 2 || // 漏洞引入
-      stage.stageNum === 3 || // 漏洞发现
-      stage.stageNum === 5 // 漏洞修复
-  );
+  const analysisStages = report.stages.filter(stage => stage.role === 'analysis');
 
   return analysisStages.map(stage => ({
     stageNum: stage.stageNum ?? 0,
@@ -1331,16 +1682,16 @@ export function renderAnalysisView(markdown: string, container: HTMLElement): vo
     return;
   }
 
-  const docTitle = extractTitle(markdown);
-  const analysisStages = extractAnalysisContent(markdown);
+  const report = buildReportDocument(markdown);
+  const docTitle = report.title;
+  const analysisStages = extractAnalysisContent(report);
 
   let html = '<div class="analysis-container">';
   html += `<h1 class="analysis-title">${escapeHtml(docTitle)}</h1>`;
 
   if (analysisStages.length === 0) {
     html += '<div class="analysis-empty">';
-    html +=
-      '<p style="text-align: center; color: #999; padding: 40px;">未找到漏洞原理相关内容，请确保文档包含第2节"漏洞引入"、第3节"漏洞发现"或第5节"漏洞修复"的内容。</p>';
+    html += `<p style="text-align: center; color: #999; padding: 40px;">未找到漏洞原理相关内容，请确保文档包含${describeRoleStages(report, 'analysis')}的内容。</p>`;
     html += '</div>';
   } else {
     html += '<div class="analysis-sections">';
@@ -1357,7 +1708,7 @@ export function renderAnalysisView(markdown: string, container: HTMLElement): vo
       html += '</div>';
 
       if (stage.content) {
-        html += `<div class="analysis-section-content">${renderMarkdown(stage.content)}</div>`;
+        html += `<div class="analysis-section-content">${renderDiffBlocks(renderMarkdown(stage.content))}</div>`;
       } else {
         html += '<div class="analysis-section-content"><p class="section-empty">暂无内容</p></div>';
       }
@@ -1372,165 +1723,262 @@ export function renderAnalysisView(markdown: string, container: HTMLElement): vo
   container.innerHTML = html;
 }
 
+function renderMetricPointHtml(point: MetricPoint): string {
+  const text = describeMetricPoint(point);
+  const lineAttr = point.line !== null ? ` data-line="${point.line}"` : '';
+  const label = point.status === 'ok' && point.label ? point.label : point.name;
+  return `<div class="metric-point" data-status="${point.status}"${lineAttr}><span class="metric-point-label">${escapeHtml(label)}</span><span class="metric-point-value">${escapeHtml(text)}</span></div>`;
+}
+
+function renderMetricCardHtml(metric: LifecycleMetric): string {
+  let value: string;
+  if (metric.days === null) {
+    value = '—';
+  } else if (metric.days === 0) {
+    value = '同一天';
+  } else {
+    value = `${metric.days} 天`;
+  }
+
+  let html = `<div class="metric-card" data-metric="${metric.id}" data-status="${metric.status}">`;
+  html += '<div class="metric-card-header">';
+  html += `<h3 class="metric-name">${escapeHtml(metric.name)}</h3>`;
+  html += `<span class="metric-description">${escapeHtml(metric.description)}</span>`;
+  html += '</div>';
+  html += `<div class="metric-value">${value}</div>`;
+  if (metric.status === 'negative') {
+    html += '<div class="metric-warning">⚠ 结束日期早于开始日期，请检查时间顺序</div>';
+  } else if (metric.status === 'missing') {
+    html += '<div class="metric-warning">缺少数据，无法计算</div>';
+  }
+  html += '<div class="metric-points">';
+  html += renderMetricPointHtml(metric.from);
+  html += '<span class="metric-arrow">→</span>';
+  html += renderMetricPointHtml(metric.to);
+  html += '</div>';
+  html += '</div>';
+  return html;
+}
+
+// 渲染指标视图：由各阶段日期推导的生命周期时间间隔
+export function renderMetricsView(markdown: string, container: HTMLElement): void {
+  if (!markdown.trim()) {
+    container.innerHTML =
+      '<div class="metrics-container"><p style="text-align: center; color: #999; padding: 40px;">请在左侧输入 Markdown 内容...</p></div>';
+    return;
+  }
+
+  const report = buildReportDocument(markdown);
+  const metrics = computeLifecycleMetrics(report);
+  const available = metrics.filter(metric => metric.days !== null).length;
+
+  let html = '<div class="metrics-container">';
+  html += `<h1 class="metrics-title">${escapeHtml(report.title)}</h1>`;
+  html += '<div class="metrics-toolbar">';
+  html += `<span class="metrics-summary">已计算 ${available} / ${metrics.length} 项指标</span>`;
+  html += '<div class="metrics-export">';
+  html += '<button class="metrics-export-btn" type="button" data-format="csv">导出 CSV</button>';
+  html += '<button class="metrics-export-btn" type="button" data-format="json">导出 JSON</button>';
+  html += '</div>';
+  html += '</div>';
+  html += '<div class="metrics-grid">';
+  metrics.forEach(metric => {
+    html += renderMetricCardHtml(metric);
+  });
+  html += '</div>';
+  html += '</div>';
+  container.innerHTML = html;
+}
+
+export interface ChartViewOptions {
+  domain?: ChartDomain | null; // 缩放、平移后的时间范围，未指定时显示全部日期
+}
+
+// 渲染时间图视图：按实际时间比例绘制各阶段的日期与区间
+export function renderChartView(
+  markdown: string,
+  container: HTMLElement,
+  options: ChartViewOptions = {}
+): void {
+  if (!markdown.trim()) {
+    container.innerHTML =
+      '<div class="chart-container"><p style="text-align: center; color: #999; padding: 40px;">请在左侧输入 Markdown 内容...</p></div>';
+    return;
+  }
+
+  const report = buildReportDocument(markdown);
+  const data = buildLifecycleChartData(report);
+
+  let html = '<div class="chart-container">';
+  html += `<h1 class="chart-title">${escapeHtml(report.title)}</h1>`;
+
+  if (!data.extent) {
+    html +=
+      '<p style="text-align: center; color: #999; padding: 40px;">未找到可解析的日期，请在各阶段中填写时间字段（如 "- **上报时间**: 2024-01-01"）。</p>';
+  } else {
+    const domain = options.domain ?? data.extent;
+    html += '<div class="chart-toolbar">';
+    html += '<span class="chart-hint">滚轮缩放，拖动平移，点击事件跳转到编辑器</span>';
+    html += '<div class="chart-actions">';
+    html +=
+      '<button class="chart-action-btn" type="button" data-chart-action="zoom-in" title="放大">＋</button>';
+    html +=
+      '<button class="chart-action-btn" type="button" data-chart-action="zoom-out" title="缩小">－</button>';
+    html +=
+      '<button class="chart-action-btn" type="button" data-chart-action="reset" title="显示全部">重置</button>';
+    html += '</div>';
+    html += '</div>';
+    html += `<div class="chart-host" data-domain-start="${domain.start}" data-domain-end="${domain.end}">`;
+    html += renderLifecycleChartSvg(data, domain);
+    html += '</div>';
+  }
+
+  html += '</div>';
+  container.innerHTML = html;
+}
+
 // 子章节接口
 interface Subsection {
   title: string;
   level: number; // 标题级别 (3-6)
   content: string;
-  isComplete: boolean; // 是否完成（不包含TODO）
+  isComplete: boolean; // 是否完成（不包含未完成标记）
+  line: number; // 标题所在行；schema 要求但缺失的子章节为阶段标题行
 }
 
-const TODO_REGEX = /TODO:/i;
+// 完成度中的待办项：TODO 行、缺失的元数据，均记录可跳转的源码行
+interface CompletionTodo {
+  location: string;
+  text: string;
+  line: number;
+}
 
-// 解析章节的子章节
-function parseSubsections(content: string): Subsection[] {
-  const subsections: Subsection[] = [];
-  const lines = content.split('\n');
+interface MissingMetadata {
+  label: string;
+  line: number; // 占位值所在行；未出现的字段为阶段标题行
+}
 
-  let currentSubsection: { title: string; level: number; contentLines: string[] } | null = null;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // 检测子章节标题（h3-h6）
-    const headingMatch = line.match(/^(#{3,6})\s+(.+)$/);
-    if (headingMatch) {
-      // 保存前一个子章节
-      if (currentSubsection) {
-        const subsectionContent = currentSubsection.contentLines.join('\n').trim();
-        // 检查是否包含TODO（不区分大小写）
-        const hasTodo = TODO_REGEX.test(subsectionContent);
-        subsections.push({
-          title: currentSubsection.title,
-          level: currentSubsection.level,
-          content: subsectionContent,
-          isComplete: !hasTodo,
-        });
-      }
+// 按行判断文本是否包含未完成标记（TODO 等，见 scoring.ts）
+type MarkerMatcher = (line: string) => boolean;
 
-      // 开始新子章节
-      const level = headingMatch[1].length;
-      const title = headingMatch[2].trim();
-      currentSubsection = {
-        title,
-        level,
-        contentLines: [],
-      };
-      continue;
-    }
+function hasMarker(text: string, isMarked: MarkerMatcher): boolean {
+  return text.split('\n').some(isMarked);
+}
 
-    // 收集内容
-    if (currentSubsection) {
-      currentSubsection.contentLines.push(line);
-    }
-  }
+// 从阶段 AST 中获取子章节（代码块中的标题不会被当作子章节）
+function getStageSubsections(stage: LifecycleStage, isMarked: MarkerMatcher): Subsection[] {
+  return stage.subsections.map(subsection => ({
+    title: subsection.title,
+    level: subsection.level,
+    content: subsection.content,
+    isComplete: !hasMarker(subsection.content, isMarked),
+    line: subsection.line,
+  }));
+}
 
-  // 保存最后一个子章节
-  if (currentSubsection) {
-    const subsectionContent = currentSubsection.contentLines.join('\n').trim();
-    const hasTodo = TODO_REGEX.test(subsectionContent);
-    subsections.push({
-      title: currentSubsection.title,
-      level: currentSubsection.level,
-      content: subsectionContent,
-      isComplete: !hasTodo,
-    });
+// 收集源码范围内包含未完成标记的行
+function collectTodoLines(
+  sourceLines: string[],
+  startLine: number,
+  endLine: number,
+  location: string,
+  isMarked: MarkerMatcher
+): CompletionTodo[] {
+  const todos: CompletionTodo[] = [];
+  for (let line = startLine; line <= endLine; line++) {
+    const text = sourceLines[line - 1] ?? '';
+    if (isMarked(text)) {
+      todos.push({ location, text: text.trim(), line });
+    }
   }
-
-  return subsections;
+  return todos;
 }
 
 // 计算阶段的完成度
-interface StageCompletion {
+export interface StageCompletion {
   stageNum: number;
   title: string;
+  isBasicInfo: boolean;
   completion: number; // 0-100
+  weight: number; // 在总体完成度中的权重
+  notApplicable: NotApplicableMarker | null; // 不适用的阶段不计入总体完成度
   hasContent: boolean;
   hasMetadata: boolean;
   metadataComplete: boolean;
   subsections: Subsection[]; // 子章节列表
-  todos: Array<{ location: string; text: string }>;
+  todos: CompletionTodo[];
   details: {
     totalSubsections: number;
     completedSubsections: number;
     metadataCompletionPercent: number;
     totalMetadataItems: number;
     completedMetadataItems: number;
-    missingMetadataLabels: string[];
+    missingMetadata: MissingMetadata[];
   };
 }
 
-function calculateStageCompletion(stage: LifecycleStage): StageCompletion {
+function calculateStageCompletion(
+  stage: LifecycleStage,
+  basicInfo: BasicInfo | null,
+  definition: LifecycleStageDefinition | null,
+  sourceLines: string[],
+  rule: StageScoringRule,
+  isMarked: MarkerMatcher
+): StageCompletion {
   const content = stage.content.trim();
   const hasContent = content.length > 0 && content !== '暂无内容';
-  const isBasicInfoStage = stage.stageNum === 1 || stage.title.includes('基本信息');
-
-  // 解析子章节
-  const subsections = parseSubsections(content);
+  const isBasicInfoStage = stage.role === 'basic-info';
+
+  // 解析子章节，评分规则或 schema 要求但缺失的子章节视为未完成
+  const subsections = getStageSubsections(stage, isMarked);
+  (rule.requiredSubsections ?? definition?.subsections ?? []).forEach(required => {
+    if (!subsections.some(subsection => subsection.title.includes(required))) {
+      subsections.push({
+        title: required,
+        level: 3,
+        content: '',
+        isComplete: false,
+        line: stage.startLine,
+      });
+    }
+  });
 
   // 如果没有子章节，检查整个内容是否包含TODO
   let completion = 0;
   let totalSubsections = 0;
   let completedSubsections = 0;
   let handledByBasicInfoTable = false;
-  const todos: Array<{ location: string; text: string }> = [];
+  const todos: CompletionTodo[] = [];
 
   // 基本信息：根据表格行的填充情况计算完成度（含 TODO 判定）
-  if (isBasicInfoStage && hasContent) {
-    const lines = content.split('\n');
-    const tableLines: string[] = [];
-    let inTable = false;
-
-    for (const line of lines) {
-      if (/^\s*\|.*\|\s*$/.test(line)) {
-        tableLines.push(line);
-        inTable = true;
-      } else if (inTable) {
-        // 表格结束
-        break;
-      }
-    }
-
-    const tableRows = tableLines.map(line =>
-      line
-        .split('|')
-        .slice(1, -1)
-        .map(cell => cell.trim())
-    );
-    const isSeparatorRow = (cells: string[]): boolean =>
-      cells.length > 0 && cells.every(cell => /^:?-{3,}:?$/.test(cell));
-
-    // 过滤表头和分隔行，仅保留数据行
-    const dataRows =
-      tableRows.length >= 2 && isSeparatorRow(tableRows[1]) ? tableRows.slice(2) : tableRows;
-
-    if (dataRows.length > 0) {
-      totalSubsections = dataRows.length;
-      completedSubsections = dataRows.filter(row => {
-        if (row.length === 0) return false;
-        return row.every(cell => cell.trim() !== '' && !TODO_REGEX.test(cell));
-      }).length;
-
-      // 收集表格 TODO 项
-      dataRows.forEach(row => {
-        const itemName = row[0] ?? 'Item';
-        const columns = ['Details', 'Note'];
-        row.forEach((cell, idx) => {
-          const colName = columns[idx] ?? `Col${idx + 1}`;
-          const isEmpty = cell.trim() === '';
-          const hasTodo = TODO_REGEX.test(cell);
-          if (isEmpty || hasTodo) {
-            todos.push({
-              location: `${itemName} - ${colName}`,
-              text: isEmpty ? '<empty>' : cell,
-            });
-          }
-        });
+  if (isBasicInfoStage && hasContent && basicInfo && basicInfo.rows.length > 0) {
+    const dataRows = basicInfo.rows;
+    totalSubsections = dataRows.length;
+    completedSubsections = dataRows.filter(({ cells }) => {
+      if (cells.length === 0) return false;
+      return cells.every(cell => cell.trim() !== '' && !isMarked(cell));
+    }).length;
+
+    // 收集表格 TODO 项
+    dataRows.forEach(({ cells, line }) => {
+      const itemName = cells[0] ?? 'Item';
+      const columns = ['Details', 'Note'];
+      cells.forEach((cell, idx) => {
+        const colName = columns[idx] ?? `Col${idx + 1}`;
+        const isEmpty = cell.trim() === '';
+        const hasTodo = isMarked(cell);
+        if (isEmpty || hasTodo) {
+          todos.push({
+            location: `${itemName} - ${colName}`,
+            text: isEmpty ? '<empty>' : cell,
+            line,
+          });
+        }
       });
+    });
 
-      completion = Math.round((completedSubsections / totalSubsections) * 100);
-      handledByBasicInfoTable = true;
-    }
+    completion = Math.round((completedSubsections / totalSubsections) * 100);
+    handledByBasicInfoTable = true;
   }
 
   if (!handledByBasicInfoTable && subsections.length > 0) {
@@ -1541,25 +1989,33 @@ function calculateStageCompletion(stage: LifecycleStage): StageCompletion {
       totalSubsections > 0 ? Math.round((completedSubsections / totalSubsections) * 100) : 0;
 
     // 收集子章节中的 TODO 行
-    subsections.forEach(subsection => {
-      if (!subsection.isComplete) {
-        subsection.content.split('\n').forEach(line => {
-          if (TODO_REGEX.test(line)) {
-            todos.push({ location: `${stage.title} - ${subsection.title}`, text: line.trim() });
-          }
-        });
+    stage.subsections.forEach(subsection => {
+      if (hasMarker(subsection.content, isMarked)) {
+        todos.push(
+          ...collectTodoLines(
+            sourceLines,
+            subsection.line + 1,
+            subsection.range.endLine,
+            `${stage.title} - ${subsection.title}`,
+            isMarked
+          )
+        );
       }
     });
   } else if (!handledByBasicInfoTable) {
-    // 没有子章节：检查整个内容是否包含TODO
+    // 没有子章节：检查整个内容是否包含未完成标记
     if (hasContent) {
-      const hasTodo = TODO_REGEX.test(content);
-      if (hasTodo) {
-        content.split('\n').forEach(line => {
-          if (TODO_REGEX.test(line)) {
-            todos.push({ location: stage.title, text: line.trim() });
-          }
-        });
+      const hasTodo = hasMarker(content, isMarked);
+      if (hasTodo && stage.contentRange) {
+        todos.push(
+          ...collectTodoLines(
+            sourceLines,
+            stage.contentRange.startLine,
+            stage.contentRange.endLine,
+            stage.title,
+            isMarked
+          )
+        );
       }
       completion = hasTodo ? 0 : 100;
     } else {
@@ -1569,20 +2025,29 @@ function calculateStageCompletion(stage: LifecycleStage): StageCompletion {
     completedSubsections = 0;
   }
 
-  // 元数据完成度（作为固定20%权重参与计算）
-  const metadataWeight = 0.2;
+  // 元数据完成度（按评分规则中的权重参与计算，默认 20%）
+  const metadataWeight = rule.metadataWeight;
   let metadataCompletionPercent = 0;
   let hasMetadata = false;
   let metadataComplete = false;
   let completeMetadataItems = 0;
   let totalMetadataItems = 0;
-  let missingMetadataLabels: string[] = [];
+  let missingMetadata: MissingMetadata[] = [];
+
+  // schema 中期望但未出现的元数据字段视为缺失
+  const metadataItems = stage.metadata?.items ?? [];
+  const absentMetadataLabels = (definition?.metadata ?? []).filter(
+    label => !metadataItems.some(item => item.label.includes(label))
+  );
 
-  if (!isBasicInfoStage && stage.metadata) {
-    totalMetadataItems = stage.metadata.items.length;
-    const missingItems = stage.metadata.items.filter(item => isPlaceholderValue(item.value));
-    missingMetadataLabels = missingItems.map(item => item.label);
-    completeMetadataItems = totalMetadataItems - missingItems.length;
+  if (!isBasicInfoStage && (metadataItems.length > 0 || absentMetadataLabels.length > 0)) {
+    totalMetadataItems = metadataItems.length + absentMetadataLabels.length;
+    const missingItems = metadataItems.filter(item => isPlaceholderValue(item.value));
+    missingMetadata = [
+      ...missingItems.map(item => ({ label: item.label, line: item.line ?? stage.startLine })),
+      ...absentMetadataLabels.map(label => ({ label, line: stage.startLine })),
+    ];
+    completeMetadataItems = totalMetadataItems - missingMetadata.length;
     hasMetadata = totalMetadataItems > 0;
     metadataCompletionPercent = Math.round(
       (completeMetadataItems / Math.max(totalMetadataItems, 1)) * 100
@@ -1590,7 +2055,7 @@ function calculateStageCompletion(stage: LifecycleStage): StageCompletion {
     metadataComplete = completeMetadataItems === totalMetadataItems && totalMetadataItems > 0;
   }
 
-  // 最终完成度：子章节完成度占80%，元数据完成度占20%
+  // 最终完成度：子章节与元数据完成度按权重加权（默认 80% / 20%）
   const finalCompletion = isBasicInfoStage
     ? completion
     : Math.round(completion * (1 - metadataWeight) + metadataCompletionPercent * metadataWeight);
@@ -1598,7 +2063,10 @@ function calculateStageCompletion(stage: LifecycleStage): StageCompletion {
   return {
     stageNum: stage.stageNum ?? 0,
     title: stage.title,
+    isBasicInfo: isBasicInfoStage,
     completion: finalCompletion,
+    weight: rule.weight,
+    notApplicable: stage.notApplicable,
     hasContent,
     hasMetadata,
     metadataComplete,
@@ -1610,58 +2078,62 @@ function calculateStageCompletion(stage: LifecycleStage): StageCompletion {
       metadataCompletionPercent,
       totalMetadataItems,
       completedMetadataItems: completeMetadataItems,
-      missingMetadataLabels,
+      missingMetadata,
     },
   };
 }
 
-// 渲染完成度
-export function renderCompletionView(markdown: string, container: HTMLElement): void {
-  if (!markdown.trim()) {
-    container.innerHTML =
-      '<div class="completion-container"><p style="text-align: center; color: #999; padding: 40px;">请在左侧输入 Markdown 内容...</p></div>';
-    return;
-  }
+// 报告的完成度（完成度视图与完成度趋势共用）
+export interface ReportCompletion {
+  report: ReportDocument;
+  stages: StageCompletion[]; // schema 中的所有阶段，按阶段编号排列
+  scoredStages: StageCompletion[]; // 计入总体完成度的阶段
+  total: number; // 总体完成度 0-100
+  thresholds: CompletionThresholds;
+}
 
-  const docTitle = extractTitle(markdown);
-  const stages = parseLifecycleStages(markdown);
+// 计算报告中各阶段与总体的完成度
+export function calculateReportCompletion(markdown: string): ReportCompletion {
+  const report = buildReportDocument(markdown);
+  const stages = report.stages;
+  const basicInfo = getBasicInfo(report);
+  const sourceLines = report.source.split('\n');
+  const scoring = resolveCompletionScoring(parseFrontMatter(markdown).data.completion);
+  const isMarked = createMarkerMatcher(scoring.markers);
 
   // 计算所有阶段的完成度
   const completions: StageCompletion[] = [];
 
   stages.forEach(stage => {
     if (stage.stageNum !== null) {
-      completions.push(calculateStageCompletion(stage));
+      const definition = report.schema.stages.find(item => item.number === stage.stageNum) ?? null;
+      completions.push(
+        calculateStageCompletion(
+          stage,
+          basicInfo,
+          definition,
+          sourceLines,
+          getStageScoringRule(scoring, definition),
+          isMarked
+        )
+      );
     }
   });
 
-  // 确保所有10个阶段都有数据（即使不存在也显示为0%）
-  const STAGE_KEYWORDS: Record<string, number> = {
-    基本信息: 1,
-    漏洞引入: 2,
-    漏洞发现: 3,
-    漏洞上报: 4,
-    漏洞修复: 5,
-    漏洞公告: 6,
-    漏洞情报: 7,
-    漏洞分析: 8,
-    漏洞利用: 9,
-    防护: 10,
-  };
-
+  // 确保 schema 中的所有阶段都有数据（即使不存在也显示为0%）
   const allStages: StageCompletion[] = [];
-  for (let i = 1; i <= 10; i++) {
-    const existing = completions.find(c => c.stageNum === i);
+  report.schema.stages.forEach(definition => {
+    const existing = completions.find(c => c.stageNum === definition.number);
     if (existing) {
       allStages.push(existing);
     } else {
-      // 从配置中获取阶段名称
-      const stageTitle =
-        Object.keys(STAGE_KEYWORDS).find(key => STAGE_KEYWORDS[key] === i) || `阶段 ${i}`;
       allStages.push({
-        stageNum: i,
-        title: stageTitle,
+        stageNum: definition.number,
+        title: getStageLabel(definition, report.schema, report.language),
+        isBasicInfo: definition.role === 'basic-info',
         completion: 0,
+        weight: getStageScoringRule(scoring, definition).weight,
+        notApplicable: null,
         hasContent: false,
         hasMetadata: false,
         metadataComplete: false,
@@ -1673,16 +2145,56 @@ export function renderCompletionView(markdown: string, container: HTMLElement):
           metadataCompletionPercent: 0,
           totalMetadataItems: 0,
           completedMetadataItems: 0,
-          missingMetadataLabels: [],
+          missingMetadata: [],
         },
       });
     }
+  });
+
+  // 计算总体完成度（按阶段权重加权，权重为 0 或不适用的阶段不计入）
+  const scoredStages = allStages.filter(stage => stage.weight > 0 && !stage.notApplicable);
+  const totalWeight = scoredStages.reduce((sum, stage) => sum + stage.weight, 0);
+  const total =
+    totalWeight > 0
+      ? Math.round(
+          scoredStages.reduce((sum, stage) => sum + stage.completion * stage.weight, 0) /
+            totalWeight
+        )
+      : 0;
+
+  return { report, stages: allStages, scoredStages, total, thresholds: scoring.thresholds };
+}
+
+export interface CompletionViewOptions {
+  snapshots?: CompletionSnapshot[]; // 本地历史版本与远程提交，用于绘制完成度趋势
+  remoteStatus?: string | null; // 远程提交的加载状态
+}
+
+// 渲染完成度
+export function renderCompletionView(
+  markdown: string,
+  container: HTMLElement,
+  options: CompletionViewOptions = {}
+): void {
+  if (!markdown.trim()) {
+    container.innerHTML =
+      '<div class="completion-container"><p style="text-align: center; color: #999; padding: 40px;">请在左侧输入 Markdown 内容...</p></div>';
+    return;
   }
 
-  // 计算总体完成度
-  const totalCompletion = Math.round(
-    allStages.reduce((sum, stage) => sum + stage.completion, 0) / allStages.length
-  );
+  const completion = calculateReportCompletion(markdown);
+  const {
+    report,
+    stages: allStages,
+    scoredStages,
+    total: totalCompletion,
+    thresholds,
+  } = completion;
+  const docTitle = report.title;
+  const stages = report.stages;
+  const violations = checkChronology(report);
+  const notApplicableCount = allStages.filter(stage => stage.notApplicable).length;
+  const { high, medium } = thresholds;
 
   let html = '<div class="completion-container">';
   html += `<h1 class="completion-title">${escapeHtml(docTitle)}</h1>`;
@@ -1697,22 +2209,68 @@ export function renderCompletionView(markdown: string, container: HTMLElement):
   html += '<div class="completion-overview-progress">';
   html += `<div class="completion-overview-progress-bar" style="width: ${totalCompletion}%"></div>`;
   html += '</div>';
-  html += `<div class="completion-overview-stats">已完成 ${allStages.filter(s => s.completion >= 80).length} / ${allStages.length} 个阶段</div>`;
+  html += `<div class="completion-overview-stats">已完成 ${scoredStages.filter(s => s.completion >= high).length} / ${scoredStages.length} 个阶段`;
+  if (notApplicableCount > 0) {
+    html += `，${notApplicableCount} 个阶段不适用`;
+  }
+  html += '</div>';
+  html +=
+    '<div class="completion-overview-hint">点击未完成项可跳转到编辑器；在编辑器中按 Alt+T / Shift+Alt+T 跳转到下一个 / 上一个未完成项</div>';
   html += '</div>';
   html += '</div>';
 
+  // 完成度趋势（本地历史版本与远程提交）
+  html += renderCompletionTrendHtml(
+    buildCompletionTrend(completion, options.snapshots ?? []),
+    options.remoteStatus ?? null
+  );
+
+  // 时间顺序检查
+  if (violations.length > 0) {
+    html += '<div class="completion-chronology">';
+    html += `<h3 class="completion-chronology-title">⏱ 时间顺序冲突（${violations.length}）</h3>`;
+    html += '<ul class="completion-chronology-list">';
+    violations.forEach(item => {
+      html += `<li class="completion-chronology-item"><span class="completion-todo-location">第 ${item.later.line} 行</span>${escapeHtml(item.message)}</li>`;
+    });
+    html += '</ul>';
+    html += '</div>';
+  }
+
   // 各阶段完成度列表
   html += '<div class="completion-stages">';
 
   allStages.forEach(completion => {
     const stageGradient = `var(--gradient-stage-${completion.stageNum})`;
     const completionClass =
-      completion.completion >= 80 ? 'high' : completion.completion >= 50 ? 'medium' : 'low';
+      completion.completion >= high ? 'high' : completion.completion >= medium ? 'medium' : 'low';
+
+    // 不适用的阶段置灰显示，只展示不适用说明
+    if (completion.notApplicable) {
+      const { reason, line } = completion.notApplicable;
+      html += `<div class="completion-stage not-applicable" data-stage="${completion.stageNum}">`;
+      html += '<div class="completion-stage-header">';
+      html += `<div class="completion-stage-number" data-stage="${completion.stageNum}">${completion.stageNum}</div>`;
+      html += `<h3 class="completion-stage-title">${escapeHtml(completion.title)}</h3>`;
+      html += '<div class="completion-stage-percentage not-applicable">N/A</div>';
+      html += '</div>';
+      html += '<div class="completion-stage-details">';
+      html += '<div class="completion-stage-detail-item">';
+      html += `<span class="completion-detail-label">不适用：</span>`;
+      html += `<button type="button" class="completion-jump-btn completion-na-reason" data-line="${line}" title="跳转到编辑器">${escapeHtml(reason || '已标记为不适用，不计入总体完成度')}</button>`;
+      html += '</div>';
+      html += '</div>';
+      html += '</div>';
+      return;
+    }
 
     html += `<div class="completion-stage" data-stage="${completion.stageNum}">`;
     html += '<div class="completion-stage-header">';
     html += `<div class="completion-stage-number" data-stage="${completion.stageNum}">${completion.stageNum}</div>`;
     html += `<h3 class="completion-stage-title">${escapeHtml(completion.title)}</h3>`;
+    if (completion.weight !== 1) {
+      html += `<span class="completion-stage-weight">权重 ×${completion.weight}</span>`;
+    }
     html += `<div class="completion-stage-percentage ${completionClass}">${completion.completion}%</div>`;
     html += '</div>';
 
@@ -1737,10 +2295,10 @@ export function renderCompletionView(markdown: string, container: HTMLElement):
         completion.subsections.forEach(subsection => {
           const subsectionClass = subsection.isComplete ? 'complete' : 'incomplete';
           const subsectionIcon = subsection.isComplete ? '✓' : '✗';
-          html += `<div class="completion-subsection ${subsectionClass}">`;
+          html += `<button type="button" class="completion-subsection completion-jump-btn ${subsectionClass}" data-line="${subsection.line}" title="跳转到编辑器">`;
           html += `<span class="completion-subsection-icon">${subsectionIcon}</span>`;
           html += `<span class="completion-subsection-title">${escapeHtml(subsection.title)}</span>`;
-          html += '</div>';
+          html += '</button>';
         });
         html += '</div>';
       }
@@ -1755,14 +2313,14 @@ export function renderCompletionView(markdown: string, container: HTMLElement):
     }
 
     // 基本信息阶段不统计元数据
-    if (completion.stageNum !== 1) {
+    if (!completion.isBasicInfo) {
       html += '<div class="completion-stage-detail-item">';
       html += `<span class="completion-detail-label">元数据：</span>`;
       const {
         totalMetadataItems,
         completedMetadataItems,
         metadataCompletionPercent,
-        missingMetadataLabels,
+        missingMetadata,
       } = completion.details;
       if (totalMetadataItems === 0) {
         html += '<span class="completion-detail-value incomplete">✗ 未填写</span>';
@@ -1781,12 +2339,30 @@ export function renderCompletionView(markdown: string, container: HTMLElement):
       }
       html += '</div>';
 
-      if (totalMetadataItems > 0 && missingMetadataLabels.length > 0) {
-        const missingText = missingMetadataLabels.map(label => escapeHtml(label)).join('、');
+      if (totalMetadataItems > 0 && missingMetadata.length > 0) {
+        const missingText = missingMetadata
+          .map(
+            item =>
+              `<button type="button" class="completion-jump-btn completion-metadata-label" data-line="${item.line}" title="跳转到编辑器">${escapeHtml(item.label)}</button>`
+          )
+          .join('、');
         html += `<div class="completion-metadata-missing">缺失：${missingText}</div>`;
       }
     }
 
+    // 时间顺序
+    const stageViolations = violations.filter(item =>
+      [item.earlier, item.later].some(
+        event => stages[event.stageIndex]?.stageNum === completion.stageNum
+      )
+    );
+    if (stageViolations.length > 0) {
+      html += '<div class="completion-stage-detail-item">';
+      html += `<span class="completion-detail-label">时间顺序：</span>`;
+      html += `<span class="completion-detail-value incomplete">⚠ ${stageViolations.length} 处冲突</span>`;
+      html += '</div>';
+    }
+
     // TODO 详情
     html += '<div class="completion-stage-detail-item">';
     html += `<span class="completion-detail-label">TODO：</span>`;
@@ -1794,7 +2370,7 @@ export function renderCompletionView(markdown: string, container: HTMLElement):
       html += '<div class="completion-detail-value">';
       html += '<div class="completion-todos">';
       completion.todos.forEach(todo => {
-        html += `<div class="completion-todo-item"><span class="completion-todo-location">${escapeHtml(todo.location)}</span>: <span class="completion-todo-text">${escapeHtml(todo.text)}</span></div>`;
+        html += `<button type="button" class="completion-todo-item completion-jump-btn" data-line="${todo.line}" title="跳转到第 ${todo.line} 行"><span class="completion-todo-location">${escapeHtml(todo.location)}</span>: <span class="completion-todo-text">${escapeHtml(todo.text)}</span></button>`;
       });
       html += '</div>';
       html += '</div>';
@@ -0,0 +1,637 @@
+import type { ChangeSet } from '@codemirror/state';
+import { Lexer, type Token, type Tokens } from 'marked';
+import { classifyField, type MetadataCategory } from './fieldTypes.js';
+import { locateFrontMatter, parseFrontMatter, type FrontMatterBlock } from './frontMatter.js';
+import { detectStage, resolveSchema, type LifecycleSchema, type StageRole } from './schema.js';
+import {
+  createSourceLines,
+  lineAtOffset,
+  lineFrom,
+  lineTo,
+  type SourceLines,
+} from './sourceLines.js';
+
+// 源码范围：行号为 1-based（含 endLine），偏移为 0-based（不含 to）
+export interface SourceRange {
+  startLine: number;
+  endLine: number;
+  from: number;
+  to: number;
+}
+
+// 元数据项接口
+export interface MetadataItem {
+  label: string; // 字段标签
+  value: string; // 字段值
+  type: MetadataCategory; // 展示分类
+  fieldType: string; // 字段类型 ID（见 fieldTypes.ts）
+  icon?: string; // 图标(可选)
+  normalized?: string; // 规范化后的值
+  error?: string | null; // 校验失败原因
+  line?: number; // 1-based 行号
+}
+
+// 章节元数据接口
+export interface StageMetadata {
+  items: MetadataItem[]; // 元数据项列表
+}
+
+// 子标题信息
+export interface StageHeading {
+  title: string;
+  level: number; // 1-6
+  line: number; // 1-based 行号
+}
+
+// 列表中的 "- **字段**：值" 项
+export interface ReportField {
+  label: string;
+  value: string; // 原始值（已 trim）
+  line: number;
+}
+
+// 表格
+export interface ReportTableRow {
+  cells: string[];
+  cellCount: number; // 源码中的单元格数量（可能多于表头列数）
+  line: number;
+}
+
+export interface ReportTable {
+  header: string[];
+  rows: ReportTableRow[];
+  range: SourceRange;
+}
+
+// 代码块
+export interface ReportCodeBlock {
+  lang: string;
+  code: string;
+  range: SourceRange;
+}
+
+// 子章节（h3-h6）
+export interface ReportSubsection {
+  title: string;
+  level: number;
+  line: number; // 标题所在行
+  content: string; // 到下一个 h3-h6 标题为止的正文（已 trim）
+  range: SourceRange; // 标题行到下一个 h3-h6 标题之前
+  sectionContent: string; // 到下一个同级或更高级标题为止的正文（包含下级子章节）
+  sectionRange: SourceRange;
+}
+
+// 阶段不适用标记（如没有公开利用、没有单独公告）
+export interface NotApplicableMarker {
+  reason: string; // 说明，未填写时为空字符串
+  line: number; // 标记所在行（标题行或元数据行）
+}
+
+// 生命周期阶段（h2）
+export interface ReportStage {
+  title: string; // 已去掉不适用后缀
+  stageNum: number | null; // 在 schema 中的阶段编号，未匹配时为 null
+  role: StageRole | null;
+  language: string | null; // 标题所用语言（由命中的阶段别名判断）
+  content: string; // 标题之后的正文（已 trim）
+  startLine: number; // 标题所在行
+  range: SourceRange; // 标题行到下一个阶段之前
+  contentRange: SourceRange | null; // 正文范围，正文为空时为 null
+  metadata?: StageMetadata; // 第一个子章节之前的元数据（无元数据时为 undefined）
+  headings: StageHeading[];
+  fields: ReportField[]; // 阶段内所有 "- **字段**：值" 项
+  subsections: ReportSubsection[];
+  tables: ReportTable[];
+  codeBlocks: ReportCodeBlock[];
+  notApplicable: NotApplicableMarker | null; // 不适用的阶段不计入完成度
+}
+
+// 报告 AST
+export interface ReportDocument {
+  source: string;
+  title: string;
+  titleLine: number | null;
+  frontMatter: FrontMatterBlock | null;
+  bodyStartLine: number; // front matter 之后的第一行
+  schema: LifecycleSchema;
+  language: string; // 报告主要语言，供界面文案使用
+  stages: ReportStage[];
+}
+
+// 增量解析结果：changedStages 为重新解析的阶段下标（基于新文档），null 表示整体重新解析
+export interface ReportUpdate {
+  report: ReportDocument;
+  changedStages: number[] | null;
+}
+
+export const DEFAULT_REPORT_TITLE = '漏洞研究报告';
+
+const FIELD_LINE_REGEX = /-\s*\*\*([^*]+)\*\*[：:]\s*(.+)$/;
+const METADATA_LINE_REGEX = /^-\s*\*\*([^*]+)\*\*[：:]\s*(.*)$/;
+const ATX_HEADING_REGEX = /^ {0,3}#{1,6}(\s|$)/;
+// 可能越过阶段边界影响解析结果的语法（代码围栏、HTML 块）
+const BLOCK_BOUNDARY_REGEX = /^ {0,3}(`{3,}|~{3,})|<!--|-->|<\/?(pre|script|style|textarea)\b/i;
+// 同一行内闭合的 HTML 注释不会越过阶段边界
+const INLINE_COMMENT_REGEX = /<!--.*?-->/g;
+// 标题后缀形式的不适用标记，如 "漏洞利用 (N/A)"、"漏洞公告（不适用：无单独公告）"、"防护 - N/A"
+const NOT_APPLICABLE_TITLE_REGEX =
+  /\s*(?:[(（[【]\s*(?:N\/A|不适用|Not Applicable)(?:\s*[:：,，]\s*([^)）\]】]*))?\s*[)）\]】]|\s[-—–]\s*(?:N\/A|不适用|Not Applicable))\s*$/i;
+// 元数据形式的不适用标记："- **适用性**：N/A（说明）" 或 "- **不适用**：说明"
+const NOT_APPLICABLE_VALUE_REGEX =
+  /^(?:N\/A|不适用|Not Applicable)(?![\w/])\s*[-—–:：,，]?\s*[(（]?\s*(.*?)\s*[)）]?$/i;
+const NOT_APPLICABLE_FIELD_LABELS = ['适用性', 'applicability'];
+const NOT_APPLICABLE_REASON_LABELS = ['不适用', 'n/a', 'not applicable'];
+
+// 根据字段名和值识别字段类型，并完成校验与规范化
+export function classifyMetadataItem(label: string, rawValue: string, line?: number): MetadataItem {
+  let value = rawValue.trim();
+
+  // 如果不是 Markdown 链接，移除括号内的注释内容（如 "2024-01-01 (待修改)"）
+  if (!/^\[.+\]\(.+\)$/.test(value)) {
+    value = value.replace(/\s*\([^)]*\)\s*$/, '').trim();
+  }
+
+  const { type, normalized, error } = classifyField(label, value);
+
+  return {
+    label,
+    value,
+    type: type.category,
+    fieldType: type.id,
+    icon: type.icon || undefined,
+    normalized,
+    error,
+    line,
+  };
+}
+
+// 顶层块级 token 及其所在行
+interface LocatedToken {
+  token: Token;
+  startLine: number;
+  endLine: number;
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) count++;
+  }
+  return count;
+}
+
+// 词法分析并为每个顶层 token 计算行号
+// marked 会改写部分 token 的 raw（如展开缩进制表符、合并段落），因此按行数推进并用首行内容校验
+function lexWithLines(body: string, firstLine: number): LocatedToken[] {
+  const bodyLines = body.split('\n');
+  const located: LocatedToken[] = [];
+  let cursor = 0; // bodyLines 下标
+  let previousStart = -1;
+
+  Lexer.lex(body).forEach(token => {
+    const consumed = countNewlines(token.raw);
+    const rawLines = token.raw.split('\n');
+    const lead = rawLines.findIndex(line => line.trim().length > 0);
+    if (token.type === 'space' || lead === -1) {
+      cursor += consumed;
+      return;
+    }
+
+    const firstText = rawLines[lead].trim();
+    let start = cursor + lead;
+    if ((bodyLines[start] ?? '').trim() !== firstText) {
+      // 链接定义被丢弃、段落合并时多出换行等情况下行数会对不上，从上一个 token 之后查找首行
+      const found = bodyLines.findIndex(
+        (line, index) => index > previousStart && line.trim() === firstText
+      );
+      if (found !== -1) {
+        start = found;
+      }
+    }
+
+    const span = countNewlines(token.raw.trimEnd()) - lead;
+    located.push({ token, startLine: firstLine + start, endLine: firstLine + start + span });
+    cursor = start - lead + consumed;
+    previousStart = start;
+  });
+
+  return located;
+}
+
+// 统计表格行中的单元格数量（忽略转义的 \|）
+function countTableCells(lineText: string): number {
+  const trimmed = lineText
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(^|[^\\])\|$/, '$1');
+  return trimmed.split(/(?<!\\)\|/).length;
+}
+
+function isAtxHeading(token: Token): token is Tokens.Heading {
+  return token.type === 'heading' && ATX_HEADING_REGEX.test(token.raw);
+}
+
+function rangeOf(source: SourceLines, startLine: number, endLine: number): SourceRange {
+  return {
+    startLine,
+    endLine,
+    from: lineFrom(source, startLine),
+    to: lineTo(source, endLine),
+  };
+}
+
+function textOf(source: SourceLines, startLine: number, endLine: number): string {
+  return startLine > endLine
+    ? ''
+    : source.lines
+        .slice(startLine - 1, endLine)
+        .join('\n')
+        .trim();
+}
+
+// 去掉首尾空行后的正文范围
+function trimmedRangeOf(
+  source: SourceLines,
+  startLine: number,
+  endLine: number
+): SourceRange | null {
+  const { lines } = source;
+  let start = startLine;
+  let end = endLine;
+  while (start <= end && !lines[start - 1]?.trim()) start++;
+  while (end >= start && !lines[end - 1]?.trim()) end--;
+  return start <= end ? rangeOf(source, start, end) : null;
+}
+
+// 拆分标题中的不适用后缀，返回去掉后缀的标题与说明
+function splitNotApplicableTitle(title: string): { title: string; reason: string | null } {
+  const match = title.match(NOT_APPLICABLE_TITLE_REGEX);
+  const stripped = match ? title.slice(0, match.index).trim() : '';
+  if (!match || !stripped) {
+    return { title, reason: null };
+  }
+  return { title: stripped, reason: (match[1] ?? '').trim() };
+}
+
+// 元数据行是否为不适用标记，是则返回说明
+function parseNotApplicableField(label: string, value: string): string | null {
+  const key = label.trim().toLowerCase();
+  if (NOT_APPLICABLE_REASON_LABELS.includes(key)) {
+    return value.trim();
+  }
+  if (NOT_APPLICABLE_FIELD_LABELS.includes(key)) {
+    const match = value.trim().match(NOT_APPLICABLE_VALUE_REGEX);
+    return match ? match[1] : null;
+  }
+  return null;
+}
+
+// 由顶层 token 构建阶段节点，最后一个阶段截止到 lastLine
+function buildStages(
+  source: SourceLines,
+  located: LocatedToken[],
+  lastLine: number,
+  schema: LifecycleSchema
+): ReportStage[] {
+  const { lines } = source;
+  const stageStarts = located
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => {
+      const token = item.token;
+      return isAtxHeading(token) && token.depth === 2 && token.text.trim().length > 0;
+    });
+
+  return stageStarts.map(({ item, index }, stageIndex) => {
+    const heading = item.token as Tokens.Heading;
+    const next = stageStarts[stageIndex + 1];
+    const endLine = next ? next.item.startLine - 1 : lastLine;
+    const stageTokens = located.slice(index + 1, next ? next.index : located.length);
+    const titleMarker = splitNotApplicableTitle(heading.text.trim());
+    const title = titleMarker.title;
+    let notApplicable: NotApplicableMarker | null =
+      titleMarker.reason === null ? null : { reason: titleMarker.reason, line: item.startLine };
+    const match = detectStage(title, schema);
+    const definition = match?.stage;
+
+    const headings: StageHeading[] = [];
+    const subsectionStarts: Array<{ title: string; level: number; line: number }> = [];
+    const tables: ReportTable[] = [];
+    const codeBlocks: ReportCodeBlock[] = [];
+    const fields: ReportField[] = [];
+    const metadataItems: MetadataItem[] = [];
+
+    stageTokens.forEach(({ token, startLine, endLine: tokenEndLine }) => {
+      if (isAtxHeading(token)) {
+        headings.push({ title: token.text.trim(), level: token.depth, line: startLine });
+        if (token.depth >= 3) {
+          subsectionStarts.push({ title: token.text.trim(), level: token.depth, line: startLine });
+        }
+        return;
+      }
+
+      if (token.type === 'table') {
+        const table = token as Tokens.Table;
+        tables.push({
+          header: table.header.map(cell => cell.text.trim()),
+          // GFM 表格每行一条记录：表头、分隔行之后依次为数据行
+          rows: table.rows.map((row, rowIndex) => {
+            const line = startLine + 2 + rowIndex;
+            // marked 会按表头列数补齐空单元格，这里只保留源码中实际存在的单元格
+            const cellCount = countTableCells(lines[line - 1] ?? '');
+            return {
+              cells: row.slice(0, Math.max(cellCount, 1)).map(cell => cell.text.trim()),
+              cellCount,
+              line,
+            };
+          }),
+          range: rangeOf(source, startLine, tokenEndLine),
+        });
+        return;
+      }
+
+      if (token.type === 'code') {
+        const code = token as Tokens.Code;
+        codeBlocks.push({
+          lang: (code.lang ?? '').trim(),
+          code: code.text,
+          range: rangeOf(source, startLine, tokenEndLine),
+        });
+        return;
+      }
+
+      if (token.type === 'list') {
+        // 元数据只取第一个子章节之前的列表
+        const beforeSubsections = subsectionStarts.length === 0;
+        for (let line = startLine; line <= tokenEndLine; line++) {
+          const text = lines[line - 1] ?? '';
+          const fieldMatch = text.match(FIELD_LINE_REGEX);
+          if (fieldMatch) {
+            fields.push({ label: fieldMatch[1].trim(), value: fieldMatch[2].trim(), line });
+          }
+          const metadataMatch = beforeSubsections ? text.match(METADATA_LINE_REGEX) : null;
+          const notApplicableReason = metadataMatch
+            ? parseNotApplicableField(metadataMatch[1], metadataMatch[2])
+            : null;
+          if (notApplicableReason !== null) {
+            // 不适用标记以徽标展示，不作为元数据
+            if (!notApplicable || !notApplicable.reason) {
+              notApplicable = { reason: notApplicableReason, line };
+            }
+          } else if (metadataMatch) {
+            metadataItems.push(
+              classifyMetadataItem(metadataMatch[1].trim(), metadataMatch[2], line)
+            );
+          }
+        }
+      }
+    });
+
+    const subsections: ReportSubsection[] = subsectionStarts.map((start, subIndex) => {
+      const nextAny = subsectionStarts[subIndex + 1];
+      const contentEnd = nextAny ? nextAny.line - 1 : endLine;
+      const nextSibling = subsectionStarts
+        .slice(subIndex + 1)
+        .find(candidate => candidate.level <= start.level);
+      const sectionEnd = nextSibling ? nextSibling.line - 1 : endLine;
+      return {
+        title: start.title,
+        level: start.level,
+        line: start.line,
+        content: textOf(source, start.line + 1, contentEnd),
+        range: rangeOf(source, start.line, contentEnd),
+        sectionContent: textOf(source, start.line + 1, sectionEnd),
+        sectionRange: rangeOf(source, start.line, sectionEnd),
+      };
+    });
+
+    return {
+      title,
+      stageNum: definition?.number ?? null,
+      role: definition?.role ?? null,
+      language: match?.language ?? null,
+      content: textOf(source, item.startLine + 1, endLine),
+      startLine: item.startLine,
+      range: rangeOf(source, item.startLine, endLine),
+      contentRange: trimmedRangeOf(source, item.startLine + 1, endLine),
+      metadata: metadataItems.length > 0 ? { items: metadataItems } : undefined,
+      headings,
+      fields,
+      subsections,
+      tables,
+      codeBlocks,
+      notApplicable,
+    };
+  });
+}
+
+// 以阶段标题中出现最多的语言作为报告语言，无法判断时使用 schema 的语言
+function detectReportLanguage(stages: ReportStage[], schema: LifecycleSchema): string {
+  const counts = new Map<string, number>();
+  stages.forEach(stage => {
+    if (stage.language) {
+      counts.set(stage.language, (counts.get(stage.language) ?? 0) + 1);
+    }
+  });
+  let language = schema.language;
+  let maxCount = counts.get(schema.language) ?? 0;
+  counts.forEach((count, key) => {
+    if (count > maxCount) {
+      language = key;
+      maxCount = count;
+    }
+  });
+  return language;
+}
+
+// 构建报告 AST；未指定 schema 时使用 front matter 中的 schema 字段
+export function buildReportDocument(markdown: string, schema?: LifecycleSchema): ReportDocument {
+  const source = createSourceLines(markdown);
+  const { lines } = source;
+
+  const frontMatter = locateFrontMatter(markdown);
+  const lifecycleSchema =
+    schema ?? resolveSchema(frontMatter ? parseFrontMatter(markdown).data.schema : null);
+  // front matter 所在行（含分隔线）不参与解析
+  const bodyStartLine = frontMatter ? (frontMatter.endLine ?? lines.length) + 1 : 1;
+  const body = lines.slice(bodyStartLine - 1).join('\n');
+  const located = body ? lexWithLines(body, bodyStartLine) : [];
+
+  const titleToken = located.find(
+    ({ token }) => isAtxHeading(token) && (token as Tokens.Heading).depth === 1
+  );
+  const stages = buildStages(source, located, lines.length, lifecycleSchema);
+
+  return {
+    source: markdown,
+    title: titleToken ? (titleToken.token as Tokens.Heading).text.trim() : DEFAULT_REPORT_TITLE,
+    titleLine: titleToken ? titleToken.startLine : null,
+    frontMatter,
+    bodyStartLine,
+    schema: lifecycleSchema,
+    language: detectReportLanguage(stages, lifecycleSchema),
+    stages,
+  };
+}
+
+function touchesBlockBoundary(source: SourceLines, from: number, to: number): boolean {
+  const endLine = lineAtOffset(source, to);
+  for (let line = lineAtOffset(source, from); line <= endLine; line++) {
+    const text = (source.lines[line - 1] ?? '').replace(INLINE_COMMENT_REGEX, '');
+    if (BLOCK_BOUNDARY_REGEX.test(text)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function shiftRange(range: SourceRange, lineDelta: number, offsetDelta: number): SourceRange {
+  return {
+    startLine: range.startLine + lineDelta,
+    endLine: range.endLine + lineDelta,
+    from: range.from + offsetDelta,
+    to: range.to + offsetDelta,
+  };
+}
+
+// 平移未改动阶段的行号与偏移
+function shiftStage(stage: ReportStage, lineDelta: number, offsetDelta: number): ReportStage {
+  if (lineDelta === 0 && offsetDelta === 0) {
+    return stage;
+  }
+  return {
+    ...stage,
+    startLine: stage.startLine + lineDelta,
+    range: shiftRange(stage.range, lineDelta, offsetDelta),
+    contentRange: stage.contentRange
+      ? shiftRange(stage.contentRange, lineDelta, offsetDelta)
+      : null,
+    metadata: stage.metadata
+      ? {
+          items: stage.metadata.items.map(item => ({
+            ...item,
+            line: item.line === undefined ? undefined : item.line + lineDelta,
+          })),
+        }
+      : undefined,
+    headings: stage.headings.map(heading => ({ ...heading, line: heading.line + lineDelta })),
+    fields: stage.fields.map(field => ({ ...field, line: field.line + lineDelta })),
+    notApplicable: stage.notApplicable
+      ? { ...stage.notApplicable, line: stage.notApplicable.line + lineDelta }
+      : null,
+    subsections: stage.subsections.map(subsection => ({
+      ...subsection,
+      line: subsection.line + lineDelta,
+      range: shiftRange(subsection.range, lineDelta, offsetDelta),
+      sectionRange: shiftRange(subsection.sectionRange, lineDelta, offsetDelta),
+    })),
+    tables: stage.tables.map(table => ({
+      ...table,
+      rows: table.rows.map(row => ({ ...row, line: row.line + lineDelta })),
+      range: shiftRange(table.range, lineDelta, offsetDelta),
+    })),
+    codeBlocks: stage.codeBlocks.map(block => ({
+      ...block,
+      range: shiftRange(block.range, lineDelta, offsetDelta),
+    })),
+  };
+}
+
+// 根据编辑器的 ChangeSet 增量更新报告 AST：只重新解析受影响的阶段，其余阶段平移复用
+export function updateReportDocument(
+  previous: ReportDocument,
+  markdown: string,
+  changes: ChangeSet
+): ReportUpdate {
+  const rebuild = (): ReportUpdate => ({
+    report: buildReportDocument(markdown),
+    changedStages: null,
+  });
+
+  if (changes.length !== previous.source.length || changes.newLength !== markdown.length) {
+    return rebuild();
+  }
+  if (changes.empty) {
+    return { report: previous, changedStages: [] };
+  }
+
+  const oldStages = previous.stages;
+  // 标题缺失或位于阶段内部时，改动可能影响标题，直接整体解析
+  if (
+    oldStages.length === 0 ||
+    previous.titleLine === null ||
+    previous.titleLine > oldStages[0].startLine
+  ) {
+    return rebuild();
+  }
+
+  const oldSource = createSourceLines(previous.source);
+  const newSource = createSourceLines(markdown);
+  let firstAffected = oldStages.length;
+  let lastAffected = -1;
+  let needsRebuild = false;
+
+  changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+    if (needsRebuild) return;
+    // front matter、标题等位于第一个阶段之前的内容发生变化
+    if (fromA < oldStages[0].range.from) {
+      needsRebuild = true;
+      return;
+    }
+    if (
+      touchesBlockBoundary(oldSource, fromA, toA) ||
+      touchesBlockBoundary(newSource, fromB, toB)
+    ) {
+      needsRebuild = true;
+      return;
+    }
+    oldStages.forEach((stage, index) => {
+      if (stage.range.from <= toA && fromA <= stage.range.to) {
+        firstAffected = Math.min(firstAffected, index);
+        lastAffected = Math.max(lastAffected, index);
+      }
+    });
+  });
+
+  if (needsRebuild || lastAffected === -1) {
+    return rebuild();
+  }
+
+  const isLastStage = lastAffected === oldStages.length - 1;
+  const newFrom = changes.mapPos(oldStages[firstAffected].range.from, -1);
+  const newTo = isLastStage ? markdown.length : changes.mapPos(oldStages[lastAffected].range.to, 1);
+  const startLine = lineAtOffset(newSource, newFrom);
+  const endLine = isLastStage ? newSource.lines.length : lineAtOffset(newSource, newTo);
+
+  const body = newSource.lines.slice(startLine - 1, endLine).join('\n');
+  const regionStages = buildStages(
+    newSource,
+    lexWithLines(body, startLine),
+    endLine,
+    previous.schema
+  );
+
+  // 受影响区域必须仍以阶段标题开头，否则其内容会并入前一个阶段
+  if (regionStages.length === 0 || regionStages[0].startLine !== startLine) {
+    return rebuild();
+  }
+
+  const lineDelta = newSource.lines.length - oldSource.lines.length;
+  const offsetDelta = markdown.length - previous.source.length;
+  const following = oldStages
+    .slice(lastAffected + 1)
+    .map(stage => shiftStage(stage, lineDelta, offsetDelta));
+  if (following.length > 0 && following[0].startLine !== endLine + 1) {
+    return rebuild();
+  }
+
+  const stages = [...oldStages.slice(0, firstAffected), ...regionStages, ...following];
+  return {
+    report: {
+      ...previous,
+      source: markdown,
+      language: detectReportLanguage(stages, previous.schema),
+      stages,
+    },
+    changedStages: regionStages.map((_, index) => firstAffected + index),
+  };
+}
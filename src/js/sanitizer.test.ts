@@ -0,0 +1,146 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl, sanitizeHtml } from './sanitizer.js';
+
+// 解析过滤结果，便于按元素与属性断言
+function parse(html: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+}
+
+describe('sanitizeHtml', () => {
+  it('删除 script 标签及其内容', () => {
+    const result = sanitizeHtml('<p>before</p><script>alert(1)</script><p>after</p>');
+    expect(result).toBe('<p>before</p><p>after</p>');
+  });
+
+  it('删除图片上的事件属性', () => {
+    const img = parse(sanitizeHtml('<img src="a.png" onerror="alert(1)">')).querySelector('img');
+    expect(img?.getAttribute('src')).toBe('a.png');
+    expect(img?.hasAttribute('onerror')).toBe(false);
+  });
+
+  it('删除 svg 及其中的事件处理', () => {
+    const result = sanitizeHtml('<svg onload="alert(1)"><circle r="1"></circle></svg><p>ok</p>');
+    expect(result).toBe('<p>ok</p>');
+  });
+
+  it.each(['iframe', 'object', 'style'])('删除 %s 标签及其内容', tag => {
+    const result = sanitizeHtml(`<${tag}>payload</${tag}><p>ok</p>`);
+    expect(result).toBe('<p>ok</p>');
+  });
+
+  it('删除 style、id 等不在白名单中的属性', () => {
+    const p = parse(sanitizeHtml('<p id="x" style="color:red" title="t">x</p>')).querySelector('p');
+    expect(p?.getAttributeNames()).toEqual(['title']);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    ' javascript:alert(1)',
+    'java&#x09;script:alert(1)',
+    'java&#x0A;script:alert(1)',
+    '&#106;avascript:alert(1)',
+    '&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)',
+    'java&#x0D;script:alert(1)',
+    '&#x01;javascript:alert(1)',
+    'javascript&colon;alert(1)',
+  ])('删除 javascript: 链接 %s', href => {
+    const link = parse(sanitizeHtml(`<a href="${href}">x</a>`)).querySelector('a');
+    expect(link?.hasAttribute('href')).toBe(false);
+  });
+
+  it('删除 data: 链接', () => {
+    const link = parse(sanitizeHtml('<a href="data:text/html,<script>alert(1)</script>">x</a>'));
+    expect(link.querySelector('a')?.hasAttribute('href')).toBe(false);
+  });
+
+  it('只允许位图格式的 data: 图片', () => {
+    const png = parse(sanitizeHtml('<img src="data:image/png;base64,AAAA">')).querySelector('img');
+    const svg = parse(sanitizeHtml('<img src="data:image/svg+xml;base64,AAAA">')).querySelector(
+      'img'
+    );
+    expect(png?.getAttribute('src')).toBe('data:image/png;base64,AAAA');
+    expect(svg?.hasAttribute('src')).toBe(false);
+  });
+
+  it('去掉未知标签但保留其中的内容', () => {
+    expect(sanitizeHtml('<custom-tag><b>x</b></custom-tag>')).toBe('<b>x</b>');
+  });
+
+  it('与对象原型属性同名的标签按未知标签处理', () => {
+    expect(sanitizeHtml('<constructor>a<tostring>b</tostring></constructor>')).toBe('ab');
+  });
+
+  it('只保留禁用的 checkbox 输入框', () => {
+    const result = parse(sanitizeHtml('<input type="checkbox" checked><input type="text">'));
+    const inputs = result.querySelectorAll('input');
+    expect(inputs).toHaveLength(1);
+    expect(inputs[0].hasAttribute('disabled')).toBe(true);
+  });
+
+  it('删除注释', () => {
+    expect(sanitizeHtml('<p>a<!-- <script>alert(1)</script> --></p>')).toBe('<p>a</p>');
+  });
+});
+
+describe('sanitizeHtml strict 模式', () => {
+  it('链接只允许 https、mailto 与页内锚点', () => {
+    const result = parse(
+      sanitizeHtml(
+        '<a href="https://a.com">1</a><a href="http://a.com">2</a><a href="mailto:x@a.com">3</a><a href="#top">4</a><a href="/path">5</a>',
+        'strict'
+      )
+    );
+    const hrefs = Array.from(result.querySelectorAll('a')).map(link => link.getAttribute('href'));
+    expect(hrefs).toEqual(['https://a.com', null, 'mailto:x@a.com', '#top', null]);
+  });
+
+  it('图片只允许 https', () => {
+    const result = parse(
+      sanitizeHtml(
+        '<img src="https://a.com/a.png"><img src="http://a.com/a.png"><img src="a.png"><img src="data:image/png;base64,AAAA">',
+        'strict'
+      )
+    );
+    const sources = Array.from(result.querySelectorAll('img')).map(img => img.getAttribute('src'));
+    expect(sources).toEqual(['https://a.com/a.png', null, null, null]);
+  });
+
+  it('class 只保留代码高亮使用的类名', () => {
+    const result = parse(
+      sanitizeHtml(
+        '<code class="hljs language-js btn">x</code><span class="btn">y</span>',
+        'strict'
+      )
+    );
+    expect(result.querySelector('code')?.getAttribute('class')).toBe('hljs language-js');
+    expect(result.querySelector('span')?.hasAttribute('class')).toBe(false);
+  });
+
+  it('默认模式保留任意 class、http 与相对地址', () => {
+    const result = parse(sanitizeHtml('<a class="btn" href="http://a.com">1</a><img src="a.png">'));
+    expect(result.querySelector('a')?.getAttribute('class')).toBe('btn');
+    expect(result.querySelector('a')?.getAttribute('href')).toBe('http://a.com');
+    expect(result.querySelector('img')?.getAttribute('src')).toBe('a.png');
+  });
+});
+
+describe('isSafeUrl', () => {
+  it('判断协议前去掉空白与控制字符', () => {
+    expect(isSafeUrl('java\nscript:alert(1)', 'link')).toBe(false);
+    expect(isSafeUrl('\u0000javascript:alert(1)', 'link')).toBe(false);
+    expect(isSafeUrl('vbscript:msgbox(1)', 'link')).toBe(false);
+  });
+
+  it('区分默认与严格模式', () => {
+    expect(isSafeUrl('http://a.com', 'link')).toBe(true);
+    expect(isSafeUrl('http://a.com', 'link', 'strict')).toBe(false);
+    expect(isSafeUrl('docs/a.md', 'link')).toBe(true);
+    expect(isSafeUrl('docs/a.md', 'link', 'strict')).toBe(false);
+    expect(isSafeUrl('#section', 'link', 'strict')).toBe(true);
+    expect(isSafeUrl('#section', 'image', 'strict')).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+// Markdown 渲染结果的 HTML 白名单过滤
+//
+// 报告中可以直接书写 HTML，marked 会原样输出，插入预览前必须经过过滤。
+//
+// 默认策略（default）：
+// - 标签：只保留 ALLOWED_TAGS 中的排版标签；DROPPED_TAGS 中的标签连同内容一起删除；
+//   其他未知标签去掉标签本身，保留其中的文本与子元素
+// - 属性：只保留 GLOBAL_ATTRIBUTES 与各标签列出的属性；事件属性（on*）、style、id、name 一律删除
+// - 链接（a[href]）：http、https、mailto 及相对地址
+// - 图片（img[src]）：http、https、相对地址，以及 data:image/(png|gif|jpeg|webp)
+// - 任务列表：只保留 checkbox 类型的 input，并强制禁用
+//
+// 严格策略（strict，用于从 Gist / 仓库等远程来源加载的报告）在默认策略基础上：
+// - 链接只允许 https、mailto 与页内锚点
+// - 图片只允许 https（不加载 http、data 及相对地址的图片）
+// - class 只保留代码高亮使用的 hljs* / language-*，避免伪造页面中的按钮与控件
+
+export type SanitizeMode = 'default' | 'strict';
+
+export type UrlKind = 'link' | 'image';
+
+const GLOBAL_ATTRIBUTES = ['class', 'title', 'lang', 'dir'];
+
+// 使用 Map 而非对象字面量，避免 constructor 等标签名命中原型上的属性
+const ALLOWED_TAGS = new Map<string, string[]>(
+  Object.entries({
+    a: ['href'],
+    abbr: [],
+    b: [],
+    blockquote: ['cite'],
+    br: [],
+    caption: [],
+    code: [],
+    dd: [],
+    del: [],
+    details: ['open'],
+    div: [],
+    dl: [],
+    dt: [],
+    em: [],
+    figcaption: [],
+    figure: [],
+    h1: [],
+    h2: [],
+    h3: [],
+    h4: [],
+    h5: [],
+    h6: [],
+    hr: [],
+    i: [],
+    img: ['src', 'alt', 'width', 'height'],
+    input: ['type', 'checked', 'disabled'],
+    ins: [],
+    kbd: [],
+    li: [],
+    mark: [],
+    ol: ['start', 'reversed'],
+    p: [],
+    pre: [],
+    s: [],
+    small: [],
+    span: [],
+    strong: [],
+    sub: [],
+    summary: [],
+    sup: [],
+    table: [],
+    tbody: [],
+    td: ['align', 'colspan', 'rowspan'],
+    tfoot: [],
+    th: ['align', 'colspan', 'rowspan', 'scope'],
+    thead: [],
+    tr: [],
+    u: [],
+    ul: [],
+  })
+);
+
+const DROPPED_TAGS = new Set([
+  'applet',
+  'base',
+  'button',
+  'embed',
+  'form',
+  'frame',
+  'frameset',
+  'iframe',
+  'link',
+  'math',
+  'meta',
+  'noembed',
+  'noframes',
+  'noscript',
+  'object',
+  'plaintext',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+  'title',
+  'xmp',
+]);
+
+const URL_ATTRIBUTES = new Map<string, UrlKind>([
+  ['href', 'link'],
+  ['src', 'image'],
+  ['cite', 'link'],
+]);
+
+const SAFE_SCHEMES: Record<SanitizeMode, Record<UrlKind, string[]>> = {
+  default: { link: ['http', 'https', 'mailto'], image: ['http', 'https', 'data'] },
+  strict: { link: ['https', 'mailto'], image: ['https'] },
+};
+
+const URL_SCHEME_REGEX = /^([a-z][a-z0-9+.-]*):/i;
+const DATA_IMAGE_REGEX = /^data:image\/(png|gif|jpe?g|webp)[;,]/i;
+const STRICT_CLASS_REGEX = /^(hljs|language-)/;
+
+// 浏览器解析 URL 时会忽略其中的空白与控制字符（如 "java\nscript:"），判断协议前先去掉
+function stripControlCharacters(url: string): string {
+  return Array.from(url)
+    .filter(char => {
+      const code = char.charCodeAt(0);
+      return code > 0x20 && code !== 0x7f;
+    })
+    .join('');
+}
+
+// 判断 URL 是否可以用作链接或图片地址
+export function isSafeUrl(url: string, kind: UrlKind, mode: SanitizeMode = 'default'): boolean {
+  const normalized = stripControlCharacters(url);
+  const scheme = normalized.match(URL_SCHEME_REGEX)?.[1].toLowerCase();
+
+  if (!scheme) {
+    if (mode === 'strict') {
+      // 严格模式下只允许页内锚点，图片必须是 https 地址
+      return kind === 'link' && normalized.startsWith('#');
+    }
+    return true;
+  }
+  if (!SAFE_SCHEMES[mode][kind].includes(scheme)) {
+    return false;
+  }
+  return scheme !== 'data' || DATA_IMAGE_REGEX.test(normalized);
+}
+
+function sanitizeAttributes(
+  element: Element,
+  allowedAttributes: string[],
+  mode: SanitizeMode
+): void {
+  const allowed = [...GLOBAL_ATTRIBUTES, ...allowedAttributes];
+
+  Array.from(element.attributes).forEach(attribute => {
+    const name = attribute.name.toLowerCase();
+    const urlKind = URL_ATTRIBUTES.get(name);
+    if (!allowed.includes(name)) {
+      element.removeAttribute(attribute.name);
+    } else if (urlKind && !isSafeUrl(attribute.value, urlKind, mode)) {
+      element.removeAttribute(attribute.name);
+    } else if (name === 'class' && mode === 'strict') {
+      const classes = attribute.value.split(/\s+/).filter(item => STRICT_CLASS_REGEX.test(item));
+      if (classes.length > 0) {
+        element.setAttribute('class', classes.join(' '));
+      } else {
+        element.removeAttribute('class');
+      }
+    }
+  });
+}
+
+function sanitizeChildren(parent: ParentNode, mode: SanitizeMode): void {
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      // 注释、处理指令等
+      node.parentNode?.removeChild(node);
+      return;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      return;
+    }
+    const allowedAttributes = ALLOWED_TAGS.get(tag);
+    if (!allowedAttributes) {
+      // 未知标签：保留内容，去掉标签本身
+      sanitizeChildren(element, mode);
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+    if (tag === 'input') {
+      if (element.getAttribute('type')?.toLowerCase() !== 'checkbox') {
+        element.remove();
+        return;
+      }
+      element.setAttribute('disabled', '');
+    }
+
+    sanitizeAttributes(element, allowedAttributes, mode);
+    sanitizeChildren(element, mode);
+  });
+}
+
+// 过滤 HTML 片段；template 中的内容不会执行脚本或加载资源
+export function sanitizeHtml(html: string, mode: SanitizeMode = 'default'): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  sanitizeChildren(template.content, mode);
+  return template.innerHTML;
+}
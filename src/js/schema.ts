@@ -0,0 +1,411 @@
+import { parse as parseYaml } from 'yaml';
+
+// 阶段在专题视图中的用途
+export type StageRole = 'basic-info' | 'analysis' | 'intelligence' | 'exploitability';
+
+// 生命周期阶段定义
+export interface LifecycleStageDefinition {
+  number: number; // 1-based 阶段编号，决定颜色变量 --gradient-stage-N
+  name: string;
+  keywords: string[]; // 与语言无关的标题匹配关键词（不含 name 本身）
+  aliases: Record<string, string[]>; // 各语言的阶段名称，首项作为该语言的显示名
+  color: string; // 边框颜色
+  gradient: string; // 徽章、进度条背景
+  metadata: string[]; // 期望的元数据字段
+  subsections: string[]; // 必需的子章节
+  role: StageRole | null;
+}
+
+// 生命周期 schema
+export interface LifecycleSchema {
+  id: string;
+  name: string;
+  language: string; // 阶段 name 所使用的语言
+  stages: LifecycleStageDefinition[];
+}
+
+// 标题匹配结果
+export interface StageMatch {
+  stage: LifecycleStageDefinition;
+  language: string | null; // 命中关键词的语言，仅靠编号或通用关键词命中时为 null
+}
+
+export type SchemaParseResult = {
+  ok: boolean;
+  data?: LifecycleSchema[];
+  error?: string;
+};
+
+export const DEFAULT_SCHEMA_ID = 'vulncycle';
+export const DEFAULT_SCHEMA_LANGUAGE = 'zh';
+
+const STAGE_ROLES: StageRole[] = ['basic-info', 'analysis', 'intelligence', 'exploitability'];
+
+// 未指定颜色时循环使用默认配色
+const STAGE_PALETTE: Array<[string, string]> = [
+  ['#667eea', '#764ba2'],
+  ['#f093fb', '#f5576c'],
+  ['#4facfe', '#00f2fe'],
+  ['#43e97b', '#38f9d7'],
+  ['#fa709a', '#fee140'],
+  ['#30cfd0', '#330867'],
+  ['#a8edea', '#fed6e3'],
+  ['#ff9a9e', '#fecfef'],
+  ['#ffecd2', '#fcb69f'],
+  ['#c3f0ff', '#7ab8ff'],
+];
+
+// 默认配色中各阶段的边框色并不总是渐变的起始色
+const STAGE_PALETTE_BORDERS = [
+  '#667eea',
+  '#f5576c',
+  '#4facfe',
+  '#43e97b',
+  '#fa709a',
+  '#30cfd0',
+  '#fed6e3',
+  '#ff9a9e',
+  '#fcb69f',
+  '#7ab8ff',
+];
+
+const COLOR_REGEX = /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\)|hsla?\([\d\s.,%deg]+\)|[a-z]+)$/i;
+const GRADIENT_REGEX = /^(linear|radial)-gradient\([#\w\s.,%()-]+\)$/i;
+const SCHEMA_ID_REGEX = /^[\w-]+$/;
+
+function paletteGradient(index: number): string {
+  const [from, to] = STAGE_PALETTE[index % STAGE_PALETTE.length];
+  return `linear-gradient(135deg, ${from} 0%, ${to} 100%)`;
+}
+
+function defaultStage(
+  index: number,
+  name: string,
+  englishAliases: string[],
+  metadata: string[],
+  role: StageRole | null = null
+): LifecycleStageDefinition {
+  return {
+    number: index + 1,
+    name,
+    keywords: [],
+    aliases: { en: englishAliases },
+    color: STAGE_PALETTE_BORDERS[index],
+    gradient: paletteGradient(index),
+    metadata,
+    subsections: [],
+    role,
+  };
+}
+
+// 内置的十阶段生命周期
+export const DEFAULT_LIFECYCLE_SCHEMA: LifecycleSchema = {
+  id: DEFAULT_SCHEMA_ID,
+  name: '漏洞生命周期（默认）',
+  language: DEFAULT_SCHEMA_LANGUAGE,
+  stages: [
+    defaultStage(0, '基本信息', ['Basic Info', 'Basic Information', 'Overview'], [], 'basic-info'),
+    defaultStage(
+      1,
+      '漏洞引入',
+      ['Introduction', 'Introduced', 'Introduce'],
+      ['提交时间', '引入版本', '提交者'],
+      'analysis'
+    ),
+    defaultStage(
+      2,
+      '漏洞发现',
+      ['Discovery', 'Discovered', 'Detection'],
+      ['发现时间', '发现者', '发现方法'],
+      'analysis'
+    ),
+    defaultStage(
+      3,
+      '漏洞上报',
+      ['Report', 'Reporting', 'Reported', 'Disclosure', 'Vendor Disclosure'],
+      ['上报时间', '上报者', '上报渠道']
+    ),
+    defaultStage(
+      4,
+      '漏洞修复',
+      ['Fix', 'Fixed', 'Patch', 'Patching', 'Remediation'],
+      ['修复时间', '修复版本'],
+      'analysis'
+    ),
+    defaultStage(
+      5,
+      '漏洞公告',
+      ['Advisory', 'Announcement', 'Public Disclosure', 'Bulletin'],
+      ['公告时间', '公告链接']
+    ),
+    defaultStage(
+      6,
+      '漏洞情报',
+      ['Intelligence', 'Threat Intelligence'],
+      ['捕获时间', '情报来源'],
+      'intelligence'
+    ),
+    defaultStage(
+      7,
+      '漏洞分析',
+      ['Analysis', 'Root Cause Analysis', 'Root Cause'],
+      ['分析时间', '关键结论']
+    ),
+    defaultStage(
+      8,
+      '漏洞利用',
+      ['Exploitation', 'Exploit', 'Exploitability'],
+      ['利用难度', '需要权限'],
+      'exploitability'
+    ),
+    defaultStage(9, '防护', ['Mitigation', 'Protection', 'Defense', 'Defence'], ['防护措施']),
+  ],
+};
+
+// 用户自定义的 schema（由设置加载）
+let customSchemas: LifecycleSchema[] = [];
+let defaultSchemaId = DEFAULT_SCHEMA_ID;
+
+export function setCustomSchemas(schemas: LifecycleSchema[]): void {
+  customSchemas = schemas.filter(schema => schema.id !== DEFAULT_SCHEMA_ID);
+}
+
+export function setDefaultSchemaId(id: string): void {
+  defaultSchemaId = id;
+}
+
+export function getAvailableSchemas(): LifecycleSchema[] {
+  return [DEFAULT_LIFECYCLE_SCHEMA, ...customSchemas];
+}
+
+// 按 id 查找 schema；未指定或不存在时依次回退到设置中的默认 schema 与内置 schema
+export function resolveSchema(id?: string | null): LifecycleSchema {
+  const schemas = getAvailableSchemas();
+  return (
+    (id ? schemas.find(schema => schema.id === id) : undefined) ??
+    schemas.find(schema => schema.id === defaultSchemaId) ??
+    DEFAULT_LIFECYCLE_SCHEMA
+  );
+}
+
+// 拉丁字母关键词按单词边界匹配（避免 Fix 命中 Prefix），其他语言按子串匹配
+function containsKeyword(title: string, keyword: string): boolean {
+  const normalizedKeyword = keyword.trim().toLowerCase();
+  if (!normalizedKeyword) {
+    return false;
+  }
+  const normalizedTitle = title.toLowerCase();
+  if (!/^[a-z0-9][a-z0-9\s'/&-]*$/.test(normalizedKeyword)) {
+    return normalizedTitle.includes(normalizedKeyword);
+  }
+  const escaped = normalizedKeyword.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(normalizedTitle);
+}
+
+// 根据标题匹配阶段：优先使用 "数字. 阶段名" 格式，其次按阶段名与各语言别名匹配（不区分大小写，取最长的关键词）
+export function detectStage(
+  title: string,
+  schema: LifecycleSchema = DEFAULT_LIFECYCLE_SCHEMA
+): StageMatch | null {
+  let keywordMatch: StageMatch | null = null;
+  let matchedLength = 0;
+  for (const stage of schema.stages) {
+    const candidates: Array<[string, string | null]> = [
+      [stage.name, schema.language],
+      ...stage.keywords.map((keyword): [string, null] => [keyword, null]),
+      ...Object.entries(stage.aliases).flatMap(([language, aliases]) =>
+        aliases.map((alias): [string, string] => [alias, language])
+      ),
+    ];
+    for (const [keyword, language] of candidates) {
+      if (keyword.length > matchedLength && containsKeyword(title, keyword)) {
+        keywordMatch = { stage, language };
+        matchedLength = keyword.length;
+      }
+    }
+  }
+
+  const numbered = title.match(/^(\d+)\.?\s*.+$/);
+  if (numbered) {
+    const num = parseInt(numbered[1], 10);
+    const stage = schema.stages.find(item => item.number === num);
+    if (stage) {
+      return { stage, language: keywordMatch?.stage === stage ? keywordMatch.language : null };
+    }
+  }
+
+  return keywordMatch;
+}
+
+export function matchStage(
+  title: string,
+  schema: LifecycleSchema = DEFAULT_LIFECYCLE_SCHEMA
+): LifecycleStageDefinition | null {
+  return detectStage(title, schema)?.stage ?? null;
+}
+
+// 阶段在指定语言下的显示名，没有该语言的别名时使用 name
+export function getStageLabel(
+  stage: LifecycleStageDefinition,
+  schema: LifecycleSchema,
+  language?: string | null
+): string {
+  if (!language || language === schema.language) {
+    return stage.name;
+  }
+  return stage.aliases[language]?.[0] ?? stage.name;
+}
+
+export function getStageByRole(
+  schema: LifecycleSchema,
+  role: StageRole
+): LifecycleStageDefinition | null {
+  return schema.stages.find(stage => stage.role === role) ?? null;
+}
+
+// 别名可以是 { en: [...], ja: [...] } 形式的多语言映射，也可以是通用关键词列表
+function toAliasMap(value: unknown): Record<string, string[]> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  const aliases: Record<string, string[]> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([language, list]) => {
+    const items = toStringList(list);
+    if (items.length > 0) {
+      aliases[language.trim()] = items;
+    }
+  });
+  return aliases;
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value
+      .split(/[,，]/)
+      .map(part => part.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+function normalizeSchema(raw: unknown, index: number): LifecycleSchema | string {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return `第 ${index + 1} 个 schema 必须是对象`;
+  }
+  const record = raw as Record<string, unknown>;
+  const id = String(record.id ?? '').trim();
+  if (!SCHEMA_ID_REGEX.test(id)) {
+    return `第 ${index + 1} 个 schema 的 id 只能包含字母、数字、下划线和连字符`;
+  }
+  if (!Array.isArray(record.stages) || record.stages.length === 0) {
+    return `schema ${id} 缺少 stages 列表`;
+  }
+
+  const stages: LifecycleStageDefinition[] = [];
+  for (const [stageIndex, item] of record.stages.entries()) {
+    const stage = (typeof item === 'string' ? { name: item } : item) as Record<string, unknown>;
+    const name = String(stage?.name ?? '').trim();
+    if (!name) {
+      return `schema ${id} 的第 ${stageIndex + 1} 个阶段缺少 name`;
+    }
+
+    const color = stage.color === undefined ? null : String(stage.color).trim();
+    if (color !== null && !COLOR_REGEX.test(color)) {
+      return `阶段 ${name} 的 color 无效：${color}`;
+    }
+    const gradient = stage.gradient === undefined ? null : String(stage.gradient).trim();
+    if (gradient !== null && !GRADIENT_REGEX.test(gradient)) {
+      return `阶段 ${name} 的 gradient 无效：${gradient}`;
+    }
+    const role = stage.role === undefined ? null : String(stage.role).trim();
+    if (role !== null && !STAGE_ROLES.includes(role as StageRole)) {
+      return `阶段 ${name} 的 role 必须是 ${STAGE_ROLES.join(' / ')} 之一`;
+    }
+
+    const paletteIndex = stageIndex % STAGE_PALETTE.length;
+    stages.push({
+      number: stageIndex + 1,
+      name,
+      keywords: [
+        ...toStringList(stage.keywords),
+        ...(Array.isArray(stage.aliases) ? toStringList(stage.aliases) : []),
+      ],
+      aliases: toAliasMap(stage.aliases),
+      color: color ?? STAGE_PALETTE_BORDERS[paletteIndex],
+      gradient:
+        gradient ??
+        (color
+          ? `linear-gradient(135deg, ${color} 0%, ${color} 100%)`
+          : paletteGradient(paletteIndex)),
+      metadata: toStringList(stage.metadata),
+      subsections: toStringList(stage.subsections),
+      role: role as StageRole | null,
+    });
+  }
+
+  return {
+    id,
+    name: String(record.name ?? id).trim() || id,
+    language: String(record.language ?? DEFAULT_SCHEMA_LANGUAGE).trim() || DEFAULT_SCHEMA_LANGUAGE,
+    stages,
+  };
+}
+
+// 解析 YAML/JSON 格式的 schema 定义，支持单个 schema、schema 列表或 { schemas: [...] }
+export function parseLifecycleSchemas(source: string): SchemaParseResult {
+  if (!source.trim()) {
+    return { ok: true, data: [] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(source);
+  } catch (error) {
+    const message = (error as Error).message.split('\n')[0].replace(/:$/, '');
+    return { ok: false, error: `schema 解析失败：${message}` };
+  }
+
+  const container = parsed as { schemas?: unknown } | null;
+  const list = Array.isArray(parsed)
+    ? parsed
+    : container && Array.isArray(container.schemas)
+      ? container.schemas
+      : [parsed];
+
+  const schemas: LifecycleSchema[] = [];
+  for (const [index, item] of list.entries()) {
+    const schema = normalizeSchema(item, index);
+    if (typeof schema === 'string') {
+      return { ok: false, error: schema };
+    }
+    if (schema.id === DEFAULT_SCHEMA_ID || schemas.some(other => other.id === schema.id)) {
+      return { ok: false, error: `schema id 重复：${schema.id}` };
+    }
+    schemas.push(schema);
+  }
+
+  return { ok: true, data: schemas };
+}
+
+// 为 schema 生成阶段颜色变量；超出内置样式的阶段同时补充对应的选择器
+export function buildSchemaStyleSheet(schema: LifecycleSchema): string {
+  let css = ':root {\n';
+  schema.stages.forEach(stage => {
+    css += `  --gradient-stage-${stage.number}: ${stage.gradient};\n`;
+    css += `  --border-color-stage-${stage.number}: ${stage.color};\n`;
+  });
+  css += '}\n';
+
+  schema.stages
+    .filter(stage => stage.number > STAGE_PALETTE.length)
+    .forEach(({ number: n }) => {
+      css += `.lifecycle-stage[data-stage='${n}'] .stage-card { border-left-color: var(--border-color-stage-${n}); }\n`;
+      css += `.lifecycle-stage[data-stage='${n}'] .stage-card::before, .lifecycle-stage[data-stage='${n}'] .stage-number-badge, .completion-stage-number[data-stage='${n}'], .timeline-node-group:has(.lifecycle-stage[data-stage='${n}']) .timeline-dot { background: var(--gradient-stage-${n}); }\n`;
+      css += `.timeline-node-group:has(.lifecycle-stage[data-stage='${n}']) .timeline-header-card { border-left-color: var(--border-color-stage-${n}); }\n`;
+    });
+
+  return css;
+}
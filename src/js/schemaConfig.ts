@@ -0,0 +1,50 @@
+import { logger } from './logger.js';
+import {
+  DEFAULT_SCHEMA_ID,
+  parseLifecycleSchemas,
+  setCustomSchemas,
+  setDefaultSchemaId,
+  type SchemaParseResult,
+} from './schema.js';
+
+const STORAGE_KEY = 'vci_lifecycle_schema_config';
+
+export type SchemaConfig = {
+  source: string; // 自定义 schema 的 YAML/JSON 原文
+  defaultSchemaId: string; // front matter 未指定 schema 时使用
+};
+
+const DEFAULT_CONFIG: SchemaConfig = {
+  source: '',
+  defaultSchemaId: DEFAULT_SCHEMA_ID,
+};
+
+export function loadSchemaConfig(): SchemaConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_CONFIG };
+    return { ...DEFAULT_CONFIG, ...JSON.parse(raw) };
+  } catch (error) {
+    logger.error('Failed to load schema config:', error);
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
+export function saveSchemaConfig(config: SchemaConfig): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    logger.error('Failed to save schema config:', error);
+  }
+}
+
+// 解析配置中的 schema 并注册，解析失败时保留内置 schema
+export function applySchemaConfig(config: SchemaConfig): SchemaParseResult {
+  const result = parseLifecycleSchemas(config.source);
+  setCustomSchemas(result.ok && result.data ? result.data : []);
+  setDefaultSchemaId(config.defaultSchemaId);
+  if (!result.ok) {
+    logger.warn('Invalid lifecycle schema config:', result.error);
+  }
+  return result;
+}
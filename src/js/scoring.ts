@@ -0,0 +1,285 @@
+import { parse as parseYaml } from 'yaml';
+import type { LifecycleStageDefinition } from './schema.js';
+
+// 完成度评分规则：未完成标记、元数据权重、各阶段权重与必需子章节、完成度分级阈值
+// 规则可在设置中配置，也可在报告 front matter 的 completion 键中覆盖，后者优先
+
+export interface CompletionThresholds {
+  high: number; // 达到该完成度视为已完成（0-100）
+  medium: number; // 达到该完成度视为部分完成
+}
+
+export interface StageScoringRule {
+  weight: number; // 在总体完成度中的权重，0 表示不计入
+  metadataWeight: number; // 元数据在阶段完成度中的占比（0-1），其余为子章节
+  requiredSubsections: string[] | null; // null 表示使用 schema 中定义的必需子章节
+}
+
+export interface CompletionScoring {
+  markers: string[]; // 未完成标记：内置标记名称或自定义文本
+  metadataWeight: number;
+  stages: Record<string, Partial<StageScoringRule>>; // 键为阶段名称、别名或编号
+  thresholds: CompletionThresholds;
+}
+
+// 设置或 front matter 中的部分规则，未出现的项沿用上一级规则
+export interface CompletionScoringOverrides {
+  markers?: string[];
+  metadataWeight?: number;
+  stages?: Record<string, Partial<StageScoringRule>>;
+  thresholds?: Partial<CompletionThresholds>;
+}
+
+export type ScoringParseResult = {
+  ok: boolean;
+  data?: CompletionScoringOverrides;
+  error?: string;
+};
+
+export const DEFAULT_COMPLETION_SCORING: CompletionScoring = {
+  markers: ['TODO'],
+  metadataWeight: 0.2,
+  stages: {},
+  thresholds: { high: 80, medium: 50 },
+};
+
+// 内置标记；其他文本按字面（不区分大小写）匹配
+const BUILTIN_MARKERS: Record<string, RegExp> = {
+  todo: /TODO:/i,
+  fixme: /\bFIXME\b/i,
+  tbd: /\bTBD\b/i,
+  'unchecked-task': /^\s*(?:[-*+]|\d+[.)])\s+\[ \]/, // 未勾选的任务列表项 "- [ ]"
+  'bracket-placeholder': /^\s*\[[^\]]+\]\s*$/, // 独占一行的 "[详细描述...]" 占位文本
+};
+
+const MARKER_ALIASES: Record<string, string> = {
+  '- [ ]': 'unchecked-task',
+  '[ ]': 'unchecked-task',
+  task: 'unchecked-task',
+  '[...]': 'bracket-placeholder',
+  placeholder: 'bracket-placeholder',
+};
+
+const TOP_LEVEL_KEYS: Record<string, keyof CompletionScoringOverrides> = {
+  markers: 'markers',
+  metadata_weight: 'metadataWeight',
+  metadataWeight: 'metadataWeight',
+  stages: 'stages',
+  thresholds: 'thresholds',
+};
+
+const STAGE_KEYS: Record<string, keyof StageScoringRule> = {
+  weight: 'weight',
+  metadata_weight: 'metadataWeight',
+  metadataWeight: 'metadataWeight',
+  required: 'requiredSubsections',
+  subsections: 'requiredSubsections',
+  required_subsections: 'requiredSubsections',
+  requiredSubsections: 'requiredSubsections',
+};
+
+// 设置中的规则（由 scoringConfig 注册）
+let settingsOverrides: CompletionScoringOverrides = {};
+
+export function setScoringOverrides(overrides: CompletionScoringOverrides): void {
+  settingsOverrides = overrides;
+}
+
+// 查找表只匹配自身属性，避免 constructor、toString 等键命中原型上的函数
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 将标记编译为按行匹配的函数
+export function createMarkerMatcher(markers: string[]): (line: string) => boolean {
+  const patterns = markers.map(marker => {
+    const key = marker.trim();
+    const builtin = lookup(BUILTIN_MARKERS, lookup(MARKER_ALIASES, key) ?? key.toLowerCase());
+    return builtin ?? new RegExp(escapeRegExp(key), 'i');
+  });
+  return line => patterns.some(pattern => pattern.test(line));
+}
+
+function toNumber(value: unknown, name: string, min: number, max: number): number | string {
+  const number = typeof value === 'string' ? Number(value.replace(/%$/, '')) : value;
+  if (typeof number !== 'number' || Number.isNaN(number) || number < min || number > max) {
+    return `${name} 必须是 ${min} 到 ${max} 之间的数字`;
+  }
+  return number;
+}
+
+function toStringList(value: unknown, name: string): string[] | string {
+  if (typeof value === 'string') {
+    return value
+      .split(/[,，]/)
+      .map(part => part.trim())
+      .filter(Boolean);
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    return `${name} 必须是字符串列表`;
+  }
+  return value.map(item => item.trim()).filter(Boolean);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function normalizeStageRule(raw: unknown, stageKey: string): Partial<StageScoringRule> | string {
+  if (!isRecord(raw)) {
+    return `阶段 ${stageKey} 的规则必须是对象`;
+  }
+  const rule: Partial<StageScoringRule> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = lookup(STAGE_KEYS, key);
+    if (!field) {
+      return `阶段 ${stageKey} 中未知的配置项：${key}`;
+    }
+    if (field === 'requiredSubsections') {
+      const list = toStringList(value, `阶段 ${stageKey} 的 ${key}`);
+      if (typeof list === 'string') return list;
+      rule.requiredSubsections = list;
+    } else {
+      const number =
+        field === 'weight'
+          ? toNumber(value, `阶段 ${stageKey} 的 weight`, 0, 100)
+          : toNumber(value, `阶段 ${stageKey} 的 ${key}`, 0, 1);
+      if (typeof number === 'string') return number;
+      rule[field] = number;
+    }
+  }
+  return rule;
+}
+
+// 校验已解析的规则对象（front matter 中的 completion 值、设置中的 YAML）
+export function normalizeCompletionScoring(raw: unknown): ScoringParseResult {
+  // 允许与 front matter 相同的 { completion: {...} } 写法
+  const record = isRecord(raw) && isRecord(raw.completion) ? raw.completion : raw;
+  if (!isRecord(record)) {
+    return { ok: false, error: '完成度规则必须是键值映射' };
+  }
+
+  const data: CompletionScoringOverrides = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = lookup(TOP_LEVEL_KEYS, key);
+    if (!field) {
+      return { ok: false, error: `未知的完成度配置项：${key}` };
+    }
+
+    if (field === 'markers') {
+      const markers = toStringList(value, 'markers');
+      if (typeof markers === 'string') return { ok: false, error: markers };
+      if (markers.length === 0) return { ok: false, error: 'markers 不能为空' };
+      data.markers = markers;
+    } else if (field === 'metadataWeight') {
+      const weight = toNumber(value, key, 0, 1);
+      if (typeof weight === 'string') return { ok: false, error: weight };
+      data.metadataWeight = weight;
+    } else if (field === 'thresholds') {
+      if (!isRecord(value)) return { ok: false, error: 'thresholds 必须是对象' };
+      const thresholds: Partial<CompletionThresholds> = {};
+      for (const name of Object.keys(value)) {
+        if (name !== 'high' && name !== 'medium') {
+          return { ok: false, error: `thresholds 中未知的配置项：${name}` };
+        }
+        const threshold = toNumber(value[name], `thresholds.${name}`, 0, 100);
+        if (typeof threshold === 'string') return { ok: false, error: threshold };
+        thresholds[name] = threshold;
+      }
+      if (
+        thresholds.high !== undefined &&
+        thresholds.medium !== undefined &&
+        thresholds.medium > thresholds.high
+      ) {
+        return { ok: false, error: 'thresholds.medium 不能大于 thresholds.high' };
+      }
+      data.thresholds = thresholds;
+    } else {
+      if (!isRecord(value)) return { ok: false, error: 'stages 必须是以阶段名称为键的对象' };
+      const stages: Record<string, Partial<StageScoringRule>> = {};
+      for (const [stageKey, rawRule] of Object.entries(value)) {
+        const rule = normalizeStageRule(rawRule, stageKey);
+        if (typeof rule === 'string') return { ok: false, error: rule };
+        stages[stageKey.trim()] = rule;
+      }
+      data.stages = stages;
+    }
+  }
+
+  return { ok: true, data };
+}
+
+// 解析设置中 YAML/JSON 格式的完成度规则
+export function parseCompletionScoring(source: string): ScoringParseResult {
+  if (!source.trim()) {
+    return { ok: true, data: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(source);
+  } catch (error) {
+    const message = (error as Error).message.split('\n')[0].replace(/:$/, '');
+    return { ok: false, error: `完成度规则解析失败：${message}` };
+  }
+  return normalizeCompletionScoring(parsed);
+}
+
+function mergeScoring(
+  base: CompletionScoring,
+  overrides: CompletionScoringOverrides
+): CompletionScoring {
+  const stages = { ...base.stages };
+  Object.entries(overrides.stages ?? {}).forEach(([key, rule]) => {
+    stages[key] = { ...stages[key], ...rule };
+  });
+  return {
+    markers: overrides.markers ?? base.markers,
+    metadataWeight: overrides.metadataWeight ?? base.metadataWeight,
+    stages,
+    thresholds: { ...base.thresholds, ...overrides.thresholds },
+  };
+}
+
+// 合并默认规则、设置中的规则与报告 front matter 中的规则
+export function resolveCompletionScoring(
+  reportOverrides: CompletionScoringOverrides | null = null
+): CompletionScoring {
+  const scoring = mergeScoring(
+    mergeScoring(DEFAULT_COMPLETION_SCORING, settingsOverrides),
+    reportOverrides ?? {}
+  );
+  // 两级规则分别合法，合并后仍可能出现 medium > high
+  if (scoring.thresholds.medium > scoring.thresholds.high) {
+    scoring.thresholds.medium = scoring.thresholds.high;
+  }
+  return scoring;
+}
+
+// 阶段规则：按编号、名称、关键词或别名匹配规则键
+export function getStageScoringRule(
+  scoring: CompletionScoring,
+  definition: LifecycleStageDefinition | null
+): StageScoringRule {
+  const names = definition
+    ? [
+        String(definition.number),
+        definition.name,
+        ...definition.keywords,
+        ...Object.values(definition.aliases).flat(),
+      ]
+    : [];
+  const rule = Object.entries(scoring.stages)
+    .filter(([key]) => names.some(name => name.toLowerCase() === key.toLowerCase()))
+    .reduce<Partial<StageScoringRule>>((merged, [, item]) => ({ ...merged, ...item }), {});
+
+  return {
+    weight: rule.weight ?? 1,
+    metadataWeight: rule.metadataWeight ?? scoring.metadataWeight,
+    requiredSubsections: rule.requiredSubsections ?? null,
+  };
+}
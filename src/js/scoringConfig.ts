@@ -0,0 +1,41 @@
+import { logger } from './logger.js';
+import { parseCompletionScoring, setScoringOverrides, type ScoringParseResult } from './scoring.js';
+
+const STORAGE_KEY = 'vci_completion_scoring_config';
+
+export type ScoringConfig = {
+  source: string; // 完成度规则的 YAML/JSON 原文
+};
+
+const DEFAULT_CONFIG: ScoringConfig = {
+  source: '',
+};
+
+export function loadScoringConfig(): ScoringConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_CONFIG };
+    return { ...DEFAULT_CONFIG, ...JSON.parse(raw) };
+  } catch (error) {
+    logger.error('Failed to load scoring config:', error);
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
+export function saveScoringConfig(config: ScoringConfig): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    logger.error('Failed to save scoring config:', error);
+  }
+}
+
+// 解析配置中的完成度规则并注册，解析失败时使用默认规则
+export function applyScoringConfig(config: ScoringConfig): ScoringParseResult {
+  const result = parseCompletionScoring(config.source);
+  setScoringOverrides(result.ok && result.data ? result.data : {});
+  if (!result.ok) {
+    logger.warn('Invalid completion scoring config:', result.error);
+  }
+  return result;
+}
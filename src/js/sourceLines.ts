@@ -0,0 +1,47 @@
+// 按行切分后的源码，便于行号（1-based）与偏移（0-based）互相换算
+export interface SourceLines {
+  text: string;
+  lines: string[];
+  lineStarts: number[];
+}
+
+export function createSourceLines(text: string): SourceLines {
+  const lines = text.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  lines.forEach(line => {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  });
+  return { text, lines, lineStarts };
+}
+
+export function lineText(source: SourceLines, line: number): string {
+  return source.lines[line - 1] ?? '';
+}
+
+// 行首偏移，超出范围时为文本末尾
+export function lineFrom(source: SourceLines, line: number): number {
+  return source.lineStarts[line - 1] ?? source.text.length;
+}
+
+// 行尾偏移（不含换行符）
+export function lineTo(source: SourceLines, line: number): number {
+  return lineFrom(source, line) + lineText(source, line).length;
+}
+
+// 偏移所在的行号（1-based）
+export function lineAtOffset(source: SourceLines, offset: number): number {
+  const { lineStarts } = source;
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
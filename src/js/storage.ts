@@ -107,22 +107,35 @@ export class StorageManager {
    * 下载内容为 Markdown 文件
    */
   downloadAsFile(content: string, filename?: string): void {
-    try {
-      // 生成默认文件名（如果未提供）
-      if (!filename) {
-        const now = new Date();
-        const dateStr = now.toISOString().split('T')[0];
-        filename = `vulncycleinsight_${dateStr}.md`;
-      }
+    // 生成默认文件名（如果未提供）
+    if (!filename) {
+      const now = new Date();
+      const dateStr = now.toISOString().split('T')[0];
+      filename = `vulncycleinsight_${dateStr}.md`;
+    }
 
-      // 确保文件名以 .md 结尾
-      if (!filename.endsWith('.md')) {
-        filename += '.md';
-      }
+    // 确保文件名以 .md 结尾
+    if (!filename.endsWith('.md')) {
+      filename += '.md';
+    }
 
-      // 创建 Blob 对象
-      const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
+    this.downloadText(content, filename, 'text/markdown');
+  }
 
+  /**
+   * 下载文本内容为指定类型的文件
+   */
+  downloadText(content: string, filename: string, mimeType: string): void {
+    // 创建 Blob 对象
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    this.downloadBlob(blob, filename);
+  }
+
+  /**
+   * 下载二进制内容（如导出的图片）
+   */
+  downloadBlob(blob: Blob, filename: string): void {
+    try {
       // 创建下载链接
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
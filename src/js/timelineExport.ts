@@ -0,0 +1,218 @@
+import type { EditorView } from '@codemirror/view';
+import { renderGradientDef, type ChartLane } from './lifecycleChart.js';
+import { logger } from './logger.js';
+import { buildReportDocument, type ReportDocument } from './reportDocument.js';
+import { escapeHtml, groupStagesByTime, type TimelineOrder } from './renderer.js';
+import { storageManager } from './storage.js';
+
+export type TimelineImageFormat = 'svg' | 'png';
+
+// 独立的时间轴图片（SVG 源码及其尺寸）
+export interface TimelineImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const IMAGE_WIDTH = 800;
+const PADDING = 32;
+const HEADER_HEIGHT = 72;
+const AXIS_X = 170; // 时间轴位置，左侧为日期，右侧为阶段
+const STAGE_TITLE_HEIGHT = 24;
+const EVENT_LINE_HEIGHT = 18;
+const STAGE_GAP = 14;
+const MAX_TEXT_LENGTH = 48;
+
+// 导出的 SVG 不依赖页面样式，字体与颜色都内联在图片中（在弹窗中预览时也不影响页面其他元素）
+const IMAGE_STYLE = `
+  .timeline-image text { font-family: -apple-system, BlinkMacSystemFont, 'PingFang SC', 'Microsoft YaHei', sans-serif; }
+  .timeline-image .image-title { font-size: 22px; font-weight: 700; fill: #333; }
+  .timeline-image .image-subtitle { font-size: 12px; fill: #999; }
+  .timeline-image .image-date { font-size: 13px; font-weight: 700; fill: #5568d3; }
+  .timeline-image .image-date-unknown { font-size: 13px; fill: #999; }
+  .timeline-image .image-stage-title { font-size: 15px; font-weight: 600; fill: #333; }
+  .timeline-image .image-event { font-size: 12px; fill: #555; }
+  .timeline-image .image-axis { stroke: #667eea; stroke-opacity: 0.6; stroke-width: 3; }
+`;
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
+
+function formatIsoDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// 按生命周期视图的分组与排序绘制时间轴：左侧日期，轴上为阶段颜色的标记，右侧为阶段标题与日期字段
+export function buildTimelineImage(report: ReportDocument, order: TimelineOrder): TimelineImage {
+  const timeNodes = groupStagesByTime(report.stages, order).filter(
+    node => node.timestamp !== null || node.stages.some(({ stage }) => stage.role !== 'basic-info')
+  );
+
+  const lanes = new Map<number, ChartLane>();
+  timeNodes.forEach(node => {
+    node.stages.forEach(({ stage }) => {
+      if (stage.stageNum === null || lanes.has(stage.stageNum)) return;
+      const definition = report.schema.stages.find(item => item.number === stage.stageNum);
+      lanes.set(stage.stageNum, {
+        stageNum: stage.stageNum,
+        title: stage.title,
+        gradient: definition?.gradient ?? '',
+      });
+    });
+  });
+
+  let body = '';
+  let y = HEADER_HEIGHT + PADDING;
+  timeNodes.forEach(node => {
+    if (node.timestamp !== null) {
+      body += `<text class="image-date" x="${AXIS_X - 20}" y="${y + 16}" text-anchor="end">${formatIsoDate(node.timestamp)}</text>`;
+    } else {
+      body += `<text class="image-date-unknown" x="${AXIS_X - 20}" y="${y + 16}" text-anchor="end">未指定</text>`;
+    }
+
+    node.stages.forEach(({ stage, timeInfo }) => {
+      const fill =
+        stage.stageNum !== null ? `url(#chart-stage-gradient-${stage.stageNum})` : '#999999';
+      body += `<circle cx="${AXIS_X}" cy="${y + 11}" r="8" fill="${fill}" stroke="#ffffff" stroke-width="3"/>`;
+      body += `<text class="image-stage-title" x="${AXIS_X + 24}" y="${y + 16}">${escapeHtml(truncate(stage.title))}</text>`;
+      y += STAGE_TITLE_HEIGHT;
+      timeInfo.forEach(info => {
+        body += `<text class="image-event" x="${AXIS_X + 24}" y="${y + 12}">${escapeHtml(truncate(`${info.label}：${info.value}`))}</text>`;
+        y += EVENT_LINE_HEIGHT;
+      });
+      y += STAGE_GAP;
+    });
+  });
+
+  const height = Math.max(y + PADDING, HEADER_HEIGHT + PADDING * 2);
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" class="timeline-image" width="${IMAGE_WIDTH}" height="${height}" viewBox="0 0 ${IMAGE_WIDTH} ${height}">`;
+  svg += `<style>${IMAGE_STYLE}</style>`;
+  svg += '<defs>';
+  lanes.forEach(lane => {
+    svg += renderGradientDef(lane);
+  });
+  svg += '</defs>';
+  svg += `<rect width="${IMAGE_WIDTH}" height="${height}" fill="#ffffff"/>`;
+  svg += `<text class="image-title" x="${PADDING}" y="${PADDING + 14}">${escapeHtml(truncate(report.title))}</text>`;
+  svg += `<text class="image-subtitle" x="${PADDING}" y="${PADDING + 36}">漏洞生命周期时间轴 · 导出于 ${formatIsoDate(Date.now())}</text>`;
+  if (timeNodes.length > 0) {
+    svg += `<line class="image-axis" x1="${AXIS_X}" y1="${HEADER_HEIGHT + PADDING - 8}" x2="${AXIS_X}" y2="${height - PADDING + 8}"/>`;
+  }
+  svg += body;
+  svg += '</svg>';
+
+  return { svg, width: IMAGE_WIDTH, height };
+}
+
+// 在画布上绘制 SVG 并导出 PNG；scale 为相对 SVG 尺寸的倍数
+export async function renderTimelinePng(image: TimelineImage, scale: number): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))),
+        'image/png'
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function exportFilename(format: TimelineImageFormat): string {
+  const dateStr = new Date().toISOString().split('T')[0];
+  return `vulncycleinsight_timeline_${dateStr}.${format}`;
+}
+
+// 导出弹窗：预览时间轴图片，选择格式与 PNG 分辨率后下载
+export function initTimelineExport(editor: EditorView, getOrder: () => TimelineOrder): void {
+  const exportBtn = document.getElementById('timeline-export-btn') as HTMLButtonElement | null;
+  const modal = document.getElementById('timeline-export-modal') as HTMLElement | null;
+  const preview = document.getElementById('timeline-export-preview') as HTMLElement | null;
+  const scaleSelect = document.getElementById('timeline-export-scale') as HTMLSelectElement | null;
+  const sizeLabel = document.getElementById('timeline-export-size') as HTMLElement | null;
+  const confirmBtn = document.getElementById('timeline-export-confirm') as HTMLButtonElement | null;
+  const formatInputs = Array.from(
+    document.querySelectorAll('input[name="timeline-export-format"]')
+  ) as HTMLInputElement[];
+  const closeTargets = Array.from(
+    document.querySelectorAll('[data-timeline-export-close]')
+  ) as HTMLElement[];
+
+  if (!exportBtn || !modal || !preview || !scaleSelect || !sizeLabel || !confirmBtn) {
+    logger.error('Timeline export elements not found');
+    return;
+  }
+
+  let image: TimelineImage | null = null;
+
+  const currentFormat = (): TimelineImageFormat =>
+    formatInputs.find(input => input.checked)?.value === 'png' ? 'png' : 'svg';
+
+  const renderSize = () => {
+    if (!image) return;
+    const format = currentFormat();
+    const scale = format === 'png' ? Number(scaleSelect.value) || 1 : 1;
+    scaleSelect.disabled = format !== 'png';
+    sizeLabel.textContent = `${Math.round(image.width * scale)} × ${Math.round(image.height * scale)} px`;
+  };
+
+  const openModal = () => {
+    image = buildTimelineImage(buildReportDocument(editor.state.doc.toString()), getOrder());
+    preview.innerHTML = image.svg;
+    renderSize();
+    modal.classList.remove('hidden');
+    modal.setAttribute('aria-hidden', 'false');
+  };
+
+  const closeModal = () => {
+    modal.classList.add('hidden');
+    modal.setAttribute('aria-hidden', 'true');
+    preview.innerHTML = '';
+    image = null;
+  };
+
+  exportBtn.addEventListener('click', openModal);
+  closeTargets.forEach(node => node.addEventListener('click', closeModal));
+  formatInputs.forEach(input => input.addEventListener('change', renderSize));
+  scaleSelect.addEventListener('change', renderSize);
+
+  confirmBtn.addEventListener('click', async () => {
+    if (!image) return;
+    const format = currentFormat();
+    if (format === 'svg') {
+      storageManager.downloadText(image.svg, exportFilename('svg'), 'image/svg+xml');
+      closeModal();
+      return;
+    }
+
+    confirmBtn.disabled = true;
+    try {
+      const blob = await renderTimelinePng(image, Number(scaleSelect.value) || 1);
+      storageManager.downloadBlob(blob, exportFilename('png'));
+      closeModal();
+    } catch (error) {
+      logger.error('Failed to export timeline PNG:', error);
+      alert('导出 PNG 失败，请尝试导出 SVG');
+    } finally {
+      confirmBtn.disabled = false;
+    }
+  });
+}